@@ -0,0 +1,22 @@
+import { prisma } from '../src/lib/prisma';
+import { backfillLots } from '../src/lib/pointsLots';
+
+/**
+ * One-off: give loyalty balances from before points lots existed a lot of
+ * their own, so they expire like points earned since. Run once after
+ * deploying points expiry with `npm run points:backfill`; guests who
+ * already have a lot are skipped.
+ */
+async function main() {
+  const backfilled = await backfillLots();
+  console.log(`⏳ Started points lots for ${backfilled} existing balance(s)`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Points lots backfill failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
\ No newline at end of file
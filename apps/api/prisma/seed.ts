@@ -110,13 +110,86 @@ async function main() {
 
   console.log('✅ Created BAR rate plan:', barRatePlan.name);
 
+  // Create a discounted non-refundable rate plan
+  const nonRefundableRatePlan = await prisma.ratePlan.upsert({
+    where: { id: 'non-refundable-rate-plan' },
+    update: {},
+    create: {
+      id: 'non-refundable-rate-plan',
+      name: 'Non-Refundable Saver',
+      refundable: false,
+      discountPct: 15
+    }
+  });
+
+  console.log('✅ Created non-refundable rate plan:', nonRefundableRatePlan.name);
+
+  // Create a sample promo code
+  const welcomePromo = await prisma.promoCode.upsert({
+    where: { code: 'WELCOME10' },
+    update: {},
+    create: {
+      code: 'WELCOME10',
+      description: '10% off your first stay',
+      discountType: 'PERCENT',
+      discountValue: 10,
+      maxPerUser: 1
+    }
+  });
+
+  console.log('✅ Created promo code:', welcomePromo.code);
+
+  // Create loyalty tiers; meeting any one threshold over 12 months qualifies
+  const tiers = [
+    { code: 'BRONZE', name: 'Bronze', rank: 0, multiplier: 1, perks: ['Basic support'] },
+    {
+      code: 'SILVER', name: 'Silver', rank: 1, minPoints: 1000, minNights: 10, minSpendPaise: 10000000,
+      multiplier: 1.2, perks: ['Priority support', 'Late checkout']
+    },
+    {
+      code: 'GOLD', name: 'Gold', rank: 2, minPoints: 5000, minNights: 25, minSpendPaise: 30000000,
+      multiplier: 1.5, perks: ['Priority support', 'Late checkout', 'Room upgrade']
+    },
+    {
+      code: 'PLATINUM', name: 'Platinum', rank: 3, minPoints: 15000, minNights: 50, minSpendPaise: 75000000,
+      multiplier: 2, perks: ['Dedicated support', 'Late checkout', 'Room upgrade', 'Free breakfast']
+    }
+  ];
+
+  for (const tier of tiers) {
+    await prisma.loyaltyTier.upsert({
+      where: { code: tier.code },
+      update: {},
+      create: tier
+    });
+  }
+
+  console.log('✅ Created loyalty tiers:', tiers.map(tier => tier.name).join(', '));
+
+  // Create the base earn rule; bonuses and campaigns are added from the admin API
+  const baseEarnRule = await prisma.earnRule.upsert({
+    where: { id: 'earn-base-001' },
+    update: {},
+    create: {
+      id: 'earn-base-001',
+      name: 'Standard earn',
+      kind: 'BASE',
+      pointsPer100: 1
+    }
+  });
+
+  console.log('✅ Created earn rule:', baseEarnRule.name);
+
   console.log('🎉 Seeding completed successfully!');
   console.log('');
   console.log('📋 Seed Data Summary:');
   console.log('- Admin user: admin@podnbeyond.com (password: admin123)');
   console.log('- Room types: Deluxe Room (₹5000), Executive Suite (₹8000)');
   console.log('- Inventory: 7 days starting from today');
-  console.log('- Rate plan: Best Available Rate (refundable)');
+  console.log('- Rate plans: Best Available Rate (refundable), Non-Refundable Saver (15% off)');
+  console.log('- Promo code: WELCOME10 (10% off, once per guest)');
+  console.log('- Loyalty tiers: Bronze, Silver (1.2×), Gold (1.5×), Platinum (2×)');
+  console.log('- Earn rule: 1 point per ₹100, awarded at check-out');
 }
 
 main()
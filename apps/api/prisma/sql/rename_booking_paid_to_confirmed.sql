@@ -0,0 +1,29 @@
+-- One-off: run once against a database created before bookings were CONFIRMED
+-- rather than PAID, before `prisma db push` (which would otherwise drop PAID):
+--   npx prisma db execute --file prisma/sql/rename_booking_paid_to_confirmed.sql --schema prisma/schema.prisma
+-- Safe to run again, or on a database that never had PAID.
+
+-- Bookings that are paid, deposit-paid or to pay at the property are CONFIRMED.
+-- Renaming the value keeps every booking and transition that was PAID. Databases
+-- created after the rename never had PAID, so nothing runs on those.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'BookingStatus' AND e.enumlabel = 'PAID'
+  ) THEN
+    ALTER TYPE "BookingStatus" RENAME VALUE 'PAID' TO 'CONFIRMED';
+  END IF;
+
+  -- Stored reconciliation reports use the new name of the issue code
+  IF to_regclass('"reconciliation_reports"') IS NOT NULL THEN
+    EXECUTE $sql$
+      UPDATE "reconciliation_reports"
+      SET
+        "summary" = replace("summary"::text, '"CAPTURED_WITHOUT_PAID_BOOKING"', '"CAPTURED_WITHOUT_CONFIRMED_BOOKING"')::jsonb,
+        "rows" = replace("rows"::text, '"CAPTURED_WITHOUT_PAID_BOOKING"', '"CAPTURED_WITHOUT_CONFIRMED_BOOKING"')::jsonb
+    $sql$;
+  END IF;
+END $$;
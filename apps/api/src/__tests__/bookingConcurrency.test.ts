@@ -0,0 +1,81 @@
+import request from 'supertest';
+import type { Express } from 'express';
+import type { PrismaClient } from '@prisma/client';
+
+// Orders are created by the simulator, so nothing reaches a real gateway
+process.env.PAYMENT_PROVIDER = 'simulator';
+
+const CHECK_IN = '2031-03-10';
+const CHECK_OUT = '2031-03-12';
+const NIGHTS = ['2031-03-10', '2031-03-11'];
+const ALLOTMENT = 5;
+
+// Runs against the database in DATABASE_URL, with the schema applied
+const describeWithDatabase = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDatabase('POST /v1/bookings for the last room', () => {
+  let app: Express;
+  let prisma: PrismaClient;
+  let roomTypeId: string;
+  let sellable: number;
+
+  beforeAll(async () => {
+    // Loaded here so the environment is only validated when the suite runs
+    ({ app } = await import('../app'));
+    ({ prisma } = await import('../lib/prisma'));
+    const { env } = await import('../lib/env');
+
+    const roomType = await prisma.roomType.create({
+      data: { name: 'Concurrency Test Pod', capacity: 2, amenities: [], images: [], baseRate: 250000 }
+    });
+    roomTypeId = roomType.id;
+
+    // One room left each night, plus whatever the allowance oversells
+    await prisma.inventory.createMany({
+      data: NIGHTS.map(night => ({ roomTypeId, date: new Date(night), allotment: ALLOTMENT, booked: ALLOTMENT - 1 }))
+    });
+    sellable = 1 + env.OVERBOOKING_ALLOWANCE;
+  });
+
+  afterAll(async () => {
+    if (roomTypeId) {
+      await prisma.booking.deleteMany({ where: { roomTypeId } });
+      await prisma.roomType.delete({ where: { id: roomTypeId } });
+    }
+    await prisma?.$disconnect();
+  });
+
+  it('books it once and turns the rest away with 409', async () => {
+    const attempts = sellable + 4;
+
+    const responses = await Promise.all(
+      Array.from({ length: attempts }, (_, guest) =>
+        request(app)
+          .post('/v1/bookings')
+          .send({
+            roomTypeId,
+            guests: 1,
+            checkIn: CHECK_IN,
+            checkOut: CHECK_OUT,
+            guestName: `Concurrent Guest ${guest}`,
+            guestEmail: `concurrent-${guest}@example.com`
+          })
+      )
+    );
+    const statuses = responses.map(response => response.status).sort();
+
+    expect(statuses).toEqual([
+      ...Array<number>(sellable).fill(201),
+      ...Array<number>(attempts - sellable).fill(409)
+    ]);
+
+    // Held, not booked, until the bookings are paid
+    const nights = await prisma.inventory.findMany({ where: { roomTypeId } });
+    expect(nights).toHaveLength(NIGHTS.length);
+    for (const night of nights) {
+      expect(night.booked).toBe(ALLOTMENT - 1);
+      expect(night.held).toBe(sellable);
+    }
+    expect(await prisma.booking.count({ where: { roomTypeId } })).toBe(sellable);
+  });
+});
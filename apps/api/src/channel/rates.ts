@@ -0,0 +1,57 @@
+import { buildPriceQuote } from '@podnbeyond/shared';
+import { prisma } from '../lib/prisma';
+import { loadRateCalendar, getNightlyRates } from '../lib/pricing';
+import { taxConfig } from '../lib/tax';
+import { RateUpdate } from './ChannelProvider';
+
+/**
+ * Build rate updates for a provider from the nightly rate calendar.
+ * Dates without a calendar entry use the room type's base rate less the
+ * rate plan discount, exactly as guests are quoted on our own site.
+ */
+export async function buildRateUpdates(params: {
+  provider: string;
+  ratePlanId: string;
+  startDate: Date;
+  endDate: Date; // Inclusive
+  roomTypeId?: string;
+}): Promise<RateUpdate[]> {
+  const ratePlan = await prisma.ratePlan.findUniqueOrThrow({
+    where: { id: params.ratePlanId }
+  });
+
+  const mappings = await prisma.channelMapping.findMany({
+    where: {
+      provider: params.provider,
+      ...(params.roomTypeId ? { roomTypeId: params.roomTypeId } : {})
+    },
+    include: { roomType: true }
+  });
+
+  const checkOut = new Date(params.endDate);
+  checkOut.setUTCDate(checkOut.getUTCDate() + 1);
+
+  const calendar = await loadRateCalendar(
+    mappings.map(mapping => mapping.roomTypeId),
+    params.startDate,
+    checkOut
+  );
+
+  return mappings.flatMap(mapping => {
+    const quote = buildPriceQuote({
+      roomType: mapping.roomType,
+      ratePlan,
+      checkIn: params.startDate,
+      checkOut,
+      guests: 1,
+      nightlyRates: getNightlyRates(calendar, mapping.roomTypeId, ratePlan.id),
+      taxConfig
+    });
+
+    return quote.nightly.map(night => ({
+      roomCode: mapping.providerCode,
+      date: night.date,
+      rate: night.roomRate
+    }));
+  });
+}
@@ -0,0 +1,85 @@
+import { prisma } from '../lib/prisma';
+import { env } from '../lib/env';
+import { transitionBooking, SYSTEM_ACTOR } from '../lib/lifecycle';
+
+/**
+ * Expire PENDING bookings whose hold has lapsed and release their inventory
+ * and any loyalty points they were redeeming.
+ * The status update is conditional so a payment captured at the same moment
+ * wins over expiry.
+ */
+export async function expireLapsedHolds(now: Date = new Date()): Promise<number> {
+  const lapsed = await prisma.booking.findMany({
+    where: {
+      status: 'PENDING',
+      holdExpiresAt: { lte: now }
+    },
+    select: {
+      id: true,
+      status: true,
+      userId: true,
+      pointsRedeemed: true,
+      roomTypeId: true,
+      checkIn: true,
+      checkOut: true,
+      rooms: { select: { roomTypeId: true } }
+    }
+  });
+
+  let expired = 0;
+  for (const booking of lapsed) {
+    const released = await prisma.$transaction(tx =>
+      transitionBooking(tx, booking, 'EXPIRED', SYSTEM_ACTOR, { reason: 'Hold lapsed before payment', now })
+    );
+
+    if (released) {
+      expired++;
+    }
+  }
+
+  if (expired > 0) {
+    console.log(`⏰ Expired ${expired} unpaid booking(s) and released their holds`);
+  }
+
+  return expired;
+}
+
+/**
+ * Close the orders of modification top-ups left unpaid past their expiry.
+ * The difference stays on the booking's balance, to collect at the property.
+ */
+export async function expireLapsedTopUps(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.payment.updateMany({
+    where: {
+      purpose: 'TOP_UP',
+      status: 'CREATED',
+      revision: { topUpPaid: false, topUpExpiresAt: { lte: now } }
+    },
+    data: { status: 'FAILED', failureReason: 'Top-up not paid before it expired' }
+  });
+
+  if (count > 0) {
+    console.log(`⏰ Expired ${count} unpaid top-up order(s)`);
+  }
+
+  return count;
+}
+
+/**
+ * Run the sweeper on an interval for the lifetime of the process
+ */
+export function startHoldSweeper(): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    expireLapsedHolds().catch(error => {
+      console.error('Hold sweeper error:', error);
+    });
+    expireLapsedTopUps().catch(error => {
+      console.error('Top-up sweeper error:', error);
+    });
+  }, env.HOLD_SWEEP_INTERVAL_SECONDS * 1000);
+
+  timer.unref();
+  console.log(`🧹 Hold sweeper running every ${env.HOLD_SWEEP_INTERVAL_SECONDS}s (holds last ${env.BOOKING_HOLD_MINUTES} min)`);
+
+  return timer;
+}
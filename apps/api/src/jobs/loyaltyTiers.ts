@@ -0,0 +1,29 @@
+import { env } from '../lib/env';
+import { evaluateAllTiers } from '../lib/loyaltyTiers';
+
+/**
+ * Re-evaluate every guest's loyalty tier on an interval for the lifetime
+ * of the process, so points and stays ageing out of the rolling 12 months
+ * and lapsed grace periods take effect
+ */
+export function startLoyaltyTierJob(): NodeJS.Timeout {
+  const run = () => {
+    evaluateAllTiers()
+      .then(changed => {
+        if (changed > 0) {
+          console.log(`🏅 Loyalty tiers changed for ${changed} member(s)`);
+        }
+      })
+      .catch(error => {
+        console.error('Loyalty tier job error:', error);
+      });
+  };
+
+  const timer = setInterval(run, env.LOYALTY_TIER_INTERVAL_HOURS * 60 * 60 * 1000);
+  timer.unref();
+  run();
+
+  console.log(`🏅 Loyalty tiers re-evaluated every ${env.LOYALTY_TIER_INTERVAL_HOURS}h`);
+
+  return timer;
+}
@@ -0,0 +1,22 @@
+import { env } from '../lib/env';
+import { runNightAudit } from '../lib/nightAudit';
+
+/**
+ * Run the night audit on an interval for the lifetime of the process.
+ * Bookings become no-shows on the first run after their check-in date ends.
+ */
+export function startNightAudit(): NodeJS.Timeout {
+  const run = () => {
+    runNightAudit().catch(error => {
+      console.error('Night audit error:', error);
+    });
+  };
+
+  const timer = setInterval(run, env.NIGHT_AUDIT_INTERVAL_MINUTES * 60 * 1000);
+  timer.unref();
+  run();
+
+  console.log(`🌙 Night audit running every ${env.NIGHT_AUDIT_INTERVAL_MINUTES} min`);
+
+  return timer;
+}
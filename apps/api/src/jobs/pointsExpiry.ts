@@ -0,0 +1,34 @@
+import { env } from '../lib/env';
+import { expireLots, sendExpiryReminders } from '../lib/pointsLots';
+
+/**
+ * Expire loyalty points past their lots' expiry dates and remind guests of
+ * points about to expire, on an interval for the lifetime of the process
+ */
+export function startPointsExpiryJob(): NodeJS.Timeout {
+  const run = async () => {
+    const expired = await expireLots();
+    if (expired > 0) {
+      console.log(`⏳ Expired ${expired} loyalty point(s)`);
+    }
+
+    const reminded = await sendExpiryReminders();
+    if (reminded > 0) {
+      console.log(`⏳ Sent points expiry reminders to ${reminded} member(s)`);
+    }
+  };
+
+  const tick = () => {
+    run().catch(error => {
+      console.error('Points expiry job error:', error);
+    });
+  };
+
+  const timer = setInterval(tick, env.LOYALTY_EXPIRY_INTERVAL_HOURS * 60 * 60 * 1000);
+  timer.unref();
+  tick();
+
+  console.log(`⏳ Loyalty points expired every ${env.LOYALTY_EXPIRY_INTERVAL_HOURS}h`);
+
+  return timer;
+}
@@ -0,0 +1,39 @@
+import { prisma } from '../lib/prisma';
+import { env } from '../lib/env';
+import { reconcileDay, previousDay } from '../lib/reconciliation';
+
+/**
+ * Reconcile yesterday's payments unless a report for it already exists.
+ * Reports can be re-run from the admin API once late settlements arrive.
+ */
+export async function reconcilePreviousDay(now: Date = new Date()): Promise<boolean> {
+  const date = previousDay(now);
+
+  const existing = await prisma.reconciliationReport.findUnique({ where: { date } });
+  if (existing) {
+    return false;
+  }
+
+  await reconcileDay(date);
+  return true;
+}
+
+/**
+ * Check for a missing daily report on an interval for the lifetime of the
+ * process
+ */
+export function startReconciliationJob(): NodeJS.Timeout {
+  const run = () => {
+    reconcilePreviousDay().catch(error => {
+      console.error('Reconciliation job error:', error);
+    });
+  };
+
+  const timer = setInterval(run, env.RECONCILIATION_CHECK_INTERVAL_MINUTES * 60 * 1000);
+  timer.unref();
+  run();
+
+  console.log(`📒 Payment reconciliation checking every ${env.RECONCILIATION_CHECK_INTERVAL_MINUTES} min`);
+
+  return timer;
+}
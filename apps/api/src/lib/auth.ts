@@ -65,6 +65,13 @@ export function clearTokenCookies(res: Response) {
   res.clearCookie('refreshToken');
 }
 
+/**
+ * Map a verified token payload onto req.user
+ */
+function toRequestUser(payload: JWTPayload): NonNullable<Request['user']> {
+  return { id: payload.userId, email: payload.email, role: payload.role };
+}
+
 /**
  * Authentication middleware
  */
@@ -85,7 +92,7 @@ export function requireAuth(req: Request, res: Response, next: NextFunction) {
     }
 
     const payload = verifyToken(token);
-    req.user = payload;
+    req.user = toRequestUser(payload);
     next();
   } catch (error) {
     return res.status(401).json({
@@ -100,6 +107,24 @@ export function requireAuth(req: Request, res: Response, next: NextFunction) {
   }
 }
 
+/**
+ * Optional authentication middleware. Sets req.user when a valid token is
+ * sent but lets anonymous requests (e.g. guest checkout) through.
+ */
+export function optionalAuth(req: Request, res: Response, next: NextFunction) {
+  const token = req.cookies?.accessToken || req.headers.authorization?.replace('Bearer ', '');
+
+  if (token) {
+    try {
+      req.user = toRequestUser(verifyToken(token));
+    } catch (error) {
+      // Treat an invalid or expired token as anonymous
+    }
+  }
+
+  next();
+}
+
 /**
  * Role-based authorization middleware
  */
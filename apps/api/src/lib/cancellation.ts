@@ -0,0 +1,71 @@
+import { NoShowPolicy } from '@prisma/client';
+import { calculateNights, PriceQuote } from '@podnbeyond/shared';
+
+export type RefundPolicy = 'full' | 'partial' | 'none' | 'non_refundable';
+
+export interface RefundQuote {
+  refundAmount: number;
+  refundPolicy: RefundPolicy;
+}
+
+/**
+ * Calculate the refund due when a booking is cancelled.
+ * Non-refundable rate plans never refund; otherwise cancellation is free
+ * until 24 hours before check-in and 50% refundable until check-in.
+ */
+export function calculateRefund(
+  booking: { amountPaise: number; checkIn: Date },
+  ratePlan: { refundable: boolean } | null,
+  now: Date = new Date()
+): RefundQuote {
+  if (ratePlan && !ratePlan.refundable) {
+    return { refundAmount: 0, refundPolicy: 'non_refundable' };
+  }
+
+  const hoursUntilCheckIn = (new Date(booking.checkIn).getTime() - now.getTime()) / (1000 * 60 * 60);
+
+  if (hoursUntilCheckIn > 24) {
+    return { refundAmount: booking.amountPaise, refundPolicy: 'full' };
+  }
+
+  if (hoursUntilCheckIn > 0) {
+    return { refundAmount: Math.round(booking.amountPaise * 0.5), refundPolicy: 'partial' };
+  }
+
+  // No refund for same-day or past check-in
+  return { refundAmount: 0, refundPolicy: 'none' };
+}
+
+/**
+ * Calculate what a booking owes when the guest never arrives, under its
+ * rate plan's no-show policy. The first night is taken from each room's
+ * price snapshot; bookings without one are charged an even share of the
+ * total per night. Bookings without a rate plan are charged the first night.
+ */
+export function calculateNoShowCharge(
+  booking: {
+    amountPaise: number;
+    checkIn: Date;
+    checkOut: Date;
+    pricing: unknown;
+    rooms: Array<{ amountPaise: number; pricing: unknown }>;
+  },
+  ratePlan: { noShowPolicy: NoShowPolicy } | null
+): number {
+  const policy = ratePlan?.noShowPolicy ?? 'FIRST_NIGHT';
+
+  if (policy === 'NONE') {
+    return 0;
+  }
+  if (policy === 'FULL_STAY') {
+    return booking.amountPaise;
+  }
+
+  const nights = Math.max(1, calculateNights(booking.checkIn, booking.checkOut));
+  const stays = booking.rooms.length > 0 ? booking.rooms : [booking];
+
+  return stays.reduce((total, stay) => {
+    const firstNight = (stay.pricing as PriceQuote | null)?.nightly?.[0]?.total;
+    return total + (firstNight ?? Math.round(stay.amountPaise / nights));
+  }, 0);
+}
@@ -0,0 +1,69 @@
+export interface RoomOption {
+  roomTypeId: string;
+  capacity: number;
+  available: number;
+}
+
+export interface RoomAllocation {
+  roomTypeId: string;
+  capacity: number;
+  guests: number;
+}
+
+/**
+ * Find the sets of rooms that fit a party using the fewest rooms, e.g.
+ * 7 guests as a 4-guest suite plus a 3-guest deluxe. Combinations with the
+ * least spare capacity come first. Guests fill the largest rooms first.
+ * Anything else on an option, such as its room type, is kept on the rooms
+ * allocated from it.
+ */
+export function findRoomCombinations<T extends RoomOption>(
+  options: T[],
+  guests: number,
+  maxRooms: number,
+  limit = 5
+): Array<Array<T & RoomAllocation>> {
+  const sorted = [...options]
+    .filter(option => option.available > 0 && option.capacity > 0)
+    .sort((a, b) => b.capacity - a.capacity);
+  const found: T[][] = [];
+  let fewestRooms = maxRooms;
+
+  // Rooms are chosen in capacity order so each combination is found once
+  const search = (start: number, chosen: T[], capacity: number) => {
+    if (capacity >= guests) {
+      found.push([...chosen]);
+      fewestRooms = Math.min(fewestRooms, chosen.length);
+      return;
+    }
+    if (chosen.length >= fewestRooms) {
+      return; // Can't beat a combination already found
+    }
+
+    sorted.slice(start).forEach((option, offset) => {
+      const used = chosen.filter(room => room.roomTypeId === option.roomTypeId).length;
+      if (used < option.available) {
+        chosen.push(option);
+        search(start + offset, chosen, capacity + option.capacity);
+        chosen.pop();
+      }
+    });
+  };
+  search(0, [], 0);
+
+  const spare = (rooms: RoomOption[]) =>
+    rooms.reduce((total, room) => total + room.capacity, 0) - guests;
+
+  return found
+    .filter(rooms => rooms.length === fewestRooms)
+    .sort((a, b) => spare(a) - spare(b))
+    .slice(0, limit)
+    .map(rooms => {
+      let remaining = guests;
+      return rooms.map(room => {
+        const roomGuests = Math.min(room.capacity, remaining);
+        remaining -= roomGuests;
+        return { ...room, guests: roomGuests };
+      });
+    });
+}
@@ -0,0 +1,177 @@
+import { EarnRule, Prisma } from '@prisma/client';
+import { PriceQuote, formatDate, getDateRange } from '@podnbeyond/shared';
+import { clawBackOwedPoints } from './pointsReversal';
+import { addLot } from './pointsLots';
+
+// Used until an active BASE rule is set up; the historical 1 point per ₹100
+const DEFAULT_POINTS_PER_100 = 1;
+
+export interface EarnLine {
+  ruleId: string | null; // Null for the tier multiplier and the default base rate
+  rule: string;
+  points: number;
+}
+
+export interface EarnResult {
+  points: number;
+  breakdown: EarnLine[];
+}
+
+export interface EarnBooking {
+  amountPaise: number;
+  ratePlanId: string | null;
+  roomTypeId: string;
+  checkIn: Date;
+  checkOut: Date;
+  pricing: unknown;
+  rooms: Array<{ roomTypeId: string; amountPaise: number; pricing: unknown }>;
+}
+
+interface RoomNight {
+  date: string; // YYYY-MM-DD format
+  roomTypeId: string;
+  amountPaise: number;
+}
+
+/**
+ * Split a booking's spend into room-nights, from each room's price snapshot
+ * where there is one and an even share of the room's total otherwise
+ */
+function roomNights(booking: EarnBooking): RoomNight[] {
+  const dates = getDateRange(booking.checkIn, booking.checkOut).map(formatDate);
+  const stays = booking.rooms.length > 0 ? booking.rooms : [booking];
+
+  return stays.flatMap(stay => {
+    const nightly = (stay.pricing as PriceQuote | null)?.nightly;
+    if (nightly && nightly.length > 0) {
+      return nightly.map(night => ({ date: night.date, roomTypeId: stay.roomTypeId, amountPaise: night.total }));
+    }
+    return dates.map(date => ({
+      date,
+      roomTypeId: stay.roomTypeId,
+      amountPaise: stay.amountPaise / Math.max(1, dates.length)
+    }));
+  });
+}
+
+function matchesNight(rule: EarnRule, booking: EarnBooking, night: RoomNight): boolean {
+  if (rule.roomTypeIds.length > 0 && !rule.roomTypeIds.includes(night.roomTypeId)) {
+    return false;
+  }
+  if (rule.ratePlanIds.length > 0 && (!booking.ratePlanId || !rule.ratePlanIds.includes(booking.ratePlanId))) {
+    return false;
+  }
+  if (rule.daysOfWeek.length > 0 && !rule.daysOfWeek.includes(new Date(`${night.date}T00:00:00.000Z`).getUTCDay())) {
+    return false;
+  }
+  if (rule.stayFrom && night.date < formatDate(rule.stayFrom)) {
+    return false;
+  }
+  if (rule.stayTo && night.date > formatDate(rule.stayTo)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Work out the points a stay earns. The base rate gives points on the
+ * whole spend; the tier multiplier scales those base points. Each bonus
+ * rule multiplies the base points on the part of the spend it matches
+ * (by room type, rate plan, night of the week and stay window) and may
+ * add flat bonus points once per stay. Every rule that gives points gets
+ * a breakdown line.
+ */
+export function applyEarnRules(
+  booking: EarnBooking,
+  rules: EarnRule[],
+  tier: { name: string; multiplier: number } | null
+): EarnResult {
+  const baseRule = rules.find(rule => rule.kind === 'BASE' && rule.pointsPer100 !== null);
+  const pointsPer100 = baseRule?.pointsPer100 ?? DEFAULT_POINTS_PER_100;
+  const basePoints = Math.floor((booking.amountPaise / 10000) * pointsPer100);
+
+  const breakdown: EarnLine[] = [{
+    ruleId: baseRule?.id ?? null,
+    rule: baseRule?.name ?? 'Standard earn',
+    points: basePoints
+  }];
+
+  if (tier && tier.multiplier !== 1) {
+    breakdown.push({
+      ruleId: null,
+      rule: `${tier.name} tier ×${tier.multiplier}`,
+      points: Math.floor(basePoints * (tier.multiplier - 1))
+    });
+  }
+
+  const nights = roomNights(booking);
+  const nightsTotal = nights.reduce((total, night) => total + night.amountPaise, 0);
+
+  for (const rule of rules) {
+    if (rule.kind === 'BASE') {
+      continue;
+    }
+
+    const matched = nights.filter(night => matchesNight(rule, booking, night));
+    if (matched.length === 0) {
+      continue;
+    }
+
+    const share = nightsTotal > 0
+      ? matched.reduce((total, night) => total + night.amountPaise, 0) / nightsTotal
+      : matched.length / nights.length;
+    const points = Math.floor(basePoints * share * ((rule.multiplier ?? 1) - 1)) + (rule.bonusPoints ?? 0);
+
+    if (points !== 0) {
+      breakdown.push({ ruleId: rule.id, rule: rule.name, points });
+    }
+  }
+
+  return {
+    points: Math.max(0, breakdown.reduce((total, line) => total + line.points, 0)),
+    breakdown
+  };
+}
+
+/**
+ * Award a completed stay's points to its guest with a ledger entry
+ * recording the rules that produced them and a lot that expires them,
+ * less anything owed from earlier reversals. Runs in the check-out
+ * transaction so a stay earns once.
+ */
+export async function awardStayPoints(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  booking: EarnBooking & { id: string }
+): Promise<EarnResult> {
+  const [rules, user] = await Promise.all([
+    tx.earnRule.findMany({ where: { active: true }, orderBy: { createdAt: 'asc' } }),
+    tx.user.findUniqueOrThrow({ where: { id: userId }, select: { tier: true } })
+  ]);
+  const tier = await tx.loyaltyTier.findUnique({ where: { code: user.tier } });
+
+  const earned = applyEarnRules(booking, rules, tier);
+  if (earned.points === 0) {
+    return earned;
+  }
+
+  const entry = await tx.loyaltyLedger.create({
+    data: {
+      userId,
+      points: earned.points,
+      type: 'EARN',
+      ref: booking.id,
+      breakdown: earned.breakdown as unknown as Prisma.InputJsonArray
+    }
+  });
+
+  await tx.user.update({
+    where: { id: userId },
+    data: { points: { increment: earned.points } }
+  });
+
+  await addLot(tx, userId, earned.points, entry.id);
+  await clawBackOwedPoints(tx, userId, booking.id, earned.points);
+
+  return earned;
+}
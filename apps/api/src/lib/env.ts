@@ -13,6 +13,44 @@ const envSchema = z.object({
   RAZORPAY_KEY_ID: z.string().optional(),
   RAZORPAY_KEY_SECRET: z.string().optional(),
   RAZORPAY_WEBHOOK_SECRET: z.string().optional(),
+  PAYMENT_PROVIDER: z.enum(['razorpay', 'simulator']).optional(), // Defaults to Razorpay when keys are set
+  PAYMENT_SIMULATOR_WEBHOOK_URL: z.string().url().optional(), // Defaults to this API's Razorpay webhook
+  TAX_CONFIG_PATH: z.string().optional(),
+  BOOKING_HOLD_MINUTES: z.coerce.number().int().min(1).default(15),
+  HOLD_SWEEP_INTERVAL_SECONDS: z.coerce.number().int().min(5).default(60),
+  RECONCILIATION_FIXTURE_PATH: z.string().optional(), // Recorded gateway JSON to reconcile against instead of the provider
+  RECONCILIATION_CHECK_INTERVAL_MINUTES: z.coerce.number().int().min(1).default(60),
+  NIGHT_AUDIT_INTERVAL_MINUTES: z.coerce.number().int().min(1).default(30),
+  LOYALTY_TIER_INTERVAL_HOURS: z.coerce.number().int().min(1).default(24),
+  LOYALTY_MAX_REDEEM_POINTS: z.coerce.number().int().min(0).default(5000), // Cap on points redeemed per booking
+  // Reversing earned points the guest has already spent: NEGATIVE lets the balance go below zero,
+  // CLAWBACK stops at zero and takes the rest from later earnings
+  LOYALTY_REVERSAL_POLICY: z.enum(['NEGATIVE', 'CLAWBACK']).default('NEGATIVE'),
+  LOYALTY_POINTS_EXPIRY_DAYS: z.coerce.number().int().min(1).default(365), // Earned points expire this long after they're credited
+  LOYALTY_EXPIRY_REMINDER_DAYS: z.coerce.number().int().min(1).default(30), // Guests are emailed this long before
+  LOYALTY_EXPIRY_INTERVAL_HOURS: z.coerce.number().int().min(1).default(24),
+  OVERBOOKING_ALLOWANCE: z.coerce.number().int().min(0).default(0), // Extra rooms per night sellable beyond allotment
+}).superRefine((env, ctx) => {
+  // The payment simulator takes no real payments, so production must use Razorpay
+  if (env.NODE_ENV !== 'production') {
+    return;
+  }
+  if (env.PAYMENT_PROVIDER === 'simulator') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['PAYMENT_PROVIDER'],
+      message: 'The payment simulator cannot be used in production'
+    });
+  }
+  for (const key of ['RAZORPAY_KEY_ID', 'RAZORPAY_KEY_SECRET'] as const) {
+    if (!env[key]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [key],
+        message: 'Required in production'
+      });
+    }
+  }
 });
 
 function validateEnv() {
@@ -33,8 +71,8 @@ export const env = validateEnv();
 
 // Log warnings for missing optional configs
 if (!env.RAZORPAY_KEY_ID) {
-  console.warn('⚠️  RAZORPAY_KEY_ID not set - payment processing will be stubbed');
+  console.warn('⚠️  RAZORPAY_KEY_ID not set - payments will use the local simulator');
 }
 if (!env.RAZORPAY_KEY_SECRET) {
-  console.warn('⚠️  RAZORPAY_KEY_SECRET not set - payment processing will be stubbed');
-}
\ No newline at end of file
+  console.warn('⚠️  RAZORPAY_KEY_SECRET not set - payments will use the local simulator');
+}
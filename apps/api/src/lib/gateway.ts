@@ -0,0 +1,24 @@
+import { env } from './env';
+import { PaymentProvider } from '../payments/PaymentProvider';
+import { createRazorpayProvider } from '../payments/providers/razorpay';
+import { createSimulatorProvider } from '../payments/providers/simulator';
+
+function selectPaymentProvider(): PaymentProvider {
+  if (env.PAYMENT_PROVIDER !== 'simulator') {
+    const razorpay = createRazorpayProvider();
+    if (razorpay) {
+      console.log('✅ Razorpay payment provider initialized');
+      return razorpay;
+    }
+  }
+
+  // Only reachable outside production; the environment check refuses it there
+  console.warn('⚠️  Using the local payment simulator - no real payments will be taken');
+  return createSimulatorProvider();
+}
+
+/**
+ * The payment gateway in use: Razorpay when configured, otherwise (or with
+ * PAYMENT_PROVIDER=simulator) the local simulator. Production requires Razorpay.
+ */
+export const paymentProvider = selectPaymentProvider();
@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { IdempotencyKey, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+// A request still IN_PROGRESS after this is assumed to have died with its process
+const LOCK_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Hash what makes two requests "the same": who sent it, where, and the body
+ */
+function fingerprintOf<P>(req: Request<P>): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({
+      userId: req.user?.id ?? null,
+      path: req.originalUrl.split('?')[0],
+      body: req.rawBody ? req.rawBody.toString('utf8') : JSON.stringify(req.body ?? {})
+    }))
+    .digest('hex');
+}
+
+/**
+ * Claim a key for this request. Returns the claimed record's ID, or the
+ * existing record when the key belongs to another request.
+ */
+async function claimKey(
+  scope: string,
+  key: string,
+  fingerprint: string
+): Promise<{ claimedId: string; existing: null } | { claimedId: null; existing: IdempotencyKey }> {
+  const now = new Date();
+  let existing = await prisma.idempotencyKey.findUnique({
+    where: { scope_key: { scope, key } }
+  });
+
+  if (existing && existing.expiresAt <= now) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: existing.id, expiresAt: existing.expiresAt } });
+    existing = null;
+  }
+
+  if (!existing) {
+    try {
+      const created = await prisma.idempotencyKey.create({
+        data: { scope, key, fingerprint, expiresAt: new Date(now.getTime() + KEY_TTL_MS) }
+      });
+      return { claimedId: created.id, existing: null };
+    } catch (error) {
+      // A concurrent request with the same key got there first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const winner = await prisma.idempotencyKey.findUniqueOrThrow({ where: { scope_key: { scope, key } } });
+        return { claimedId: null, existing: winner };
+      }
+      throw error;
+    }
+  }
+
+  // Take over a request that never finished, if it was this same request
+  if (
+    existing.status === 'IN_PROGRESS' &&
+    existing.fingerprint === fingerprint &&
+    existing.updatedAt.getTime() < now.getTime() - LOCK_TIMEOUT_MS
+  ) {
+    const { count } = await prisma.idempotencyKey.updateMany({
+      where: { id: existing.id, status: 'IN_PROGRESS', updatedAt: existing.updatedAt },
+      data: { updatedAt: now }
+    });
+    if (count === 1) {
+      return { claimedId: existing.id, existing: null };
+    }
+  }
+
+  return { claimedId: null, existing };
+}
+
+/**
+ * Idempotency middleware for POSTs that move money. A request sent with an
+ * Idempotency-Key header runs once; retries with the same key and body get
+ * the first response back, and a key reused with a different body gets a
+ * 422. Server errors and conflicts (409s, e.g. a booking changed by
+ * another request or rooms taken meanwhile) release the key so the request
+ * can be retried with it. Requests without the header are not deduplicated.
+ */
+export async function idempotent<P>(req: Request<P>, res: Response, next: NextFunction) {
+  const key = req.get('Idempotency-Key');
+  if (key === undefined) {
+    return next();
+  }
+
+  try {
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const scope = `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`;
+    const fingerprint = fingerprintOf(req);
+    const { claimedId, existing } = await claimKey(scope, key, fingerprint);
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        return res.status(422).json({
+          type: 'https://tools.ietf.org/html/rfc4918#section-11.2',
+          title: 'Unprocessable Entity',
+          status: 422,
+          detail: 'Idempotency-Key was already used for a different request',
+          instance: req.url,
+          timestamp: new Date().toISOString(),
+          requestId: req.id
+        });
+      }
+
+      if (existing.status === 'COMPLETED') {
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(existing.responseStatus ?? 200).json(existing.responseBody);
+      }
+
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: 'A request with this Idempotency-Key is still being processed',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    // Store the response before sending it, so a retry never sees the key
+    // in progress once the client has its answer
+    let settled = false;
+    const send = res.json.bind(res);
+    res.json = (body?: unknown) => {
+      settled = true;
+      const stored = res.statusCode >= 500 || res.statusCode === 409
+        ? prisma.idempotencyKey.delete({ where: { id: claimedId } })
+        : prisma.idempotencyKey.update({
+          where: { id: claimedId },
+          data: {
+            status: 'COMPLETED',
+            responseStatus: res.statusCode,
+            responseBody: JSON.parse(JSON.stringify(body ?? {})) as Prisma.InputJsonValue
+          }
+        });
+
+      stored
+        .catch(error => console.error(`❌ Failed to store response for Idempotency-Key ${key}:`, error))
+        .finally(() => send(body));
+      return res;
+    };
+
+    // Release the key if the handler responded with something other than JSON
+    res.on('finish', () => {
+      if (!settled) {
+        prisma.idempotencyKey.deleteMany({ where: { id: claimedId, status: 'IN_PROGRESS' } })
+          .catch(error => console.error(`❌ Failed to release Idempotency-Key ${key}:`, error));
+      }
+    });
+
+    next();
+  } catch (error) {
+    console.error('Idempotency error:', error);
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to process Idempotency-Key',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+}
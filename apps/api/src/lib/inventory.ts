@@ -0,0 +1,195 @@
+import { Prisma } from '@prisma/client';
+import { calculateNights } from '@podnbeyond/shared';
+import { env } from './env';
+
+type Tx = Prisma.TransactionClient;
+
+export interface ReservedStay {
+  roomTypeId: string;
+  checkIn: Date;
+  checkOut: Date;
+  rooms?: Array<{ roomTypeId: string }>;
+}
+
+/**
+ * When a hold placed now should lapse
+ */
+export function holdExpiresAt(now: Date = new Date()): Date {
+  return new Date(now.getTime() + env.BOOKING_HOLD_MINUTES * 60 * 1000);
+}
+
+/**
+ * Count the rooms a booking takes per room type. Bookings made before
+ * room lines existed count as one room of their room type.
+ */
+export function countRooms(stay: ReservedStay): Map<string, number> {
+  const rooms = stay.rooms && stay.rooms.length > 0 ? stay.rooms : [{ roomTypeId: stay.roomTypeId }];
+  const counts = new Map<string, number>();
+
+  // Sorted so concurrent reservations lock room types in the same order
+  for (const room of [...rooms].sort((a, b) => a.roomTypeId.localeCompare(b.roomTypeId))) {
+    counts.set(room.roomTypeId, (counts.get(room.roomTypeId) ?? 0) + 1);
+  }
+
+  return counts;
+}
+
+/**
+ * Lock a room type's nights for a stay (in date order, so concurrent stays
+ * can't deadlock) and check that booked + held stays within the allotment
+ * plus the overbooking allowance. Must run inside a transaction.
+ */
+async function lockAvailable(
+  tx: Tx,
+  roomTypeId: string,
+  checkIn: Date,
+  checkOut: Date,
+  quantity: number
+): Promise<boolean> {
+  const nights = await tx.$queryRaw<Array<{ allotment: number; booked: number; held: number }>>`
+    SELECT "allotment", "booked", "held"
+    FROM "inventory"
+    WHERE "roomTypeId" = ${roomTypeId}
+      AND "date" >= ${checkIn}::date
+      AND "date" < ${checkOut}::date
+    ORDER BY "date"
+    FOR UPDATE
+  `;
+
+  return nights.length === calculateNights(checkIn, checkOut) &&
+    nights.every(night => night.booked + night.held + quantity <= night.allotment + env.OVERBOOKING_ALLOWANCE);
+}
+
+async function incrementHeld(
+  tx: Tx,
+  roomTypeId: string,
+  checkIn: Date,
+  checkOut: Date,
+  quantity: number
+): Promise<void> {
+  await tx.inventory.updateMany({
+    where: {
+      roomTypeId,
+      date: { gte: checkIn, lt: checkOut }
+    },
+    data: { held: { increment: quantity } }
+  });
+}
+
+/**
+ * Release a stay's hold, e.g. when an unpaid booking expires or is cancelled
+ */
+async function releaseHold(
+  tx: Tx,
+  roomTypeId: string,
+  checkIn: Date,
+  checkOut: Date,
+  quantity = 1
+): Promise<void> {
+  await tx.inventory.updateMany({
+    where: {
+      roomTypeId,
+      date: { gte: checkIn, lt: checkOut },
+      held: { gte: quantity }
+    },
+    data: { held: { decrement: quantity } }
+  });
+}
+
+/**
+ * Turn a paid booking's hold into booked inventory
+ */
+async function confirmHold(
+  tx: Tx,
+  roomTypeId: string,
+  checkIn: Date,
+  checkOut: Date,
+  quantity = 1
+): Promise<void> {
+  await releaseHold(tx, roomTypeId, checkIn, checkOut, quantity);
+  await tx.inventory.updateMany({
+    where: {
+      roomTypeId,
+      date: { gte: checkIn, lt: checkOut }
+    },
+    data: { booked: { increment: quantity } }
+  });
+}
+
+/**
+ * Hold every room of a booking. Every room type is locked and checked
+ * before anything is held, so it returns false, holding nothing, if any
+ * room type is full.
+ */
+export async function holdRooms(tx: Tx, stay: ReservedStay): Promise<boolean> {
+  const counts = countRooms(stay);
+
+  for (const [roomTypeId, quantity] of counts) {
+    if (!await lockAvailable(tx, roomTypeId, stay.checkIn, stay.checkOut, quantity)) {
+      return false;
+    }
+  }
+
+  for (const [roomTypeId, quantity] of counts) {
+    await incrementHeld(tx, roomTypeId, stay.checkIn, stay.checkOut, quantity);
+  }
+
+  return true;
+}
+
+/**
+ * Release the holds on every room of a booking
+ */
+export async function releaseRooms(tx: Tx, stay: ReservedStay): Promise<void> {
+  for (const [roomTypeId, quantity] of countRooms(stay)) {
+    await releaseHold(tx, roomTypeId, stay.checkIn, stay.checkOut, quantity);
+  }
+}
+
+/**
+ * Book every room of a paid booking
+ */
+export async function confirmRooms(tx: Tx, stay: ReservedStay): Promise<void> {
+  for (const [roomTypeId, quantity] of countRooms(stay)) {
+    await confirmHold(tx, roomTypeId, stay.checkIn, stay.checkOut, quantity);
+  }
+}
+
+/**
+ * Raised inside a transaction to roll it back when rooms can't be booked
+ */
+export class InventoryUnavailableError extends Error {
+  constructor() {
+    super('Not enough rooms are available for the selected dates');
+    this.name = 'InventoryUnavailableError';
+  }
+}
+
+/**
+ * Free the booked rooms of a paid booking, e.g. before moving it
+ */
+export async function unbookRooms(tx: Tx, stay: ReservedStay): Promise<void> {
+  for (const [roomTypeId, quantity] of countRooms(stay)) {
+    await tx.inventory.updateMany({
+      where: {
+        roomTypeId,
+        date: { gte: stay.checkIn, lt: stay.checkOut },
+        booked: { gte: quantity }
+      },
+      data: { booked: { decrement: quantity } }
+    });
+  }
+}
+
+/**
+ * Book rooms directly for a paid booking that is being moved. Throws
+ * InventoryUnavailableError, so the caller's transaction rolls back, if
+ * any room type is full.
+ */
+export async function bookRooms(tx: Tx, stay: ReservedStay): Promise<void> {
+  if (!await holdRooms(tx, stay)) {
+    throw new InventoryUnavailableError();
+  }
+
+  await confirmRooms(tx, stay);
+}
@@ -0,0 +1,231 @@
+import { BookingStatus, Prisma, TransitionActor } from '@prisma/client';
+import { formatDate } from '@podnbeyond/shared';
+import {
+  ReservedStay,
+  holdRooms,
+  releaseRooms,
+  confirmRooms,
+  unbookRooms,
+  InventoryUnavailableError
+} from './inventory';
+import { takePoints, redeemHeldPoints, releaseHeldPoints, PointsUnavailableError } from './redemption';
+import { reverseBookingPoints } from './pointsReversal';
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * Where a booking can go from each status. CHECKED_OUT, NO_SHOW and
+ * CANCELLED are final; an EXPIRED booking is only revived by a payment
+ * that arrives after its hold lapsed.
+ */
+const TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  PENDING: ['CONFIRMED', 'CANCELLED', 'EXPIRED'],
+  EXPIRED: ['CONFIRMED'],
+  CONFIRMED: ['CHECKED_IN', 'NO_SHOW', 'CANCELLED'],
+  CHECKED_IN: ['CHECKED_OUT'],
+  CHECKED_OUT: [],
+  NO_SHOW: [],
+  CANCELLED: []
+};
+
+/**
+ * Statuses of a booking that was confirmed, whatever became of the stay
+ */
+export const CONFIRMED_STATUSES: BookingStatus[] = ['CONFIRMED', 'CHECKED_IN', 'CHECKED_OUT', 'NO_SHOW'];
+
+export interface Actor {
+  type: TransitionActor;
+  id: string | null;
+}
+
+export const SYSTEM_ACTOR: Actor = { type: 'SYSTEM', id: null };
+
+/**
+ * Who is behind a request: staff, or the guest whether signed in or not
+ */
+export function requestActor(user: { id: string; role: string } | undefined): Actor {
+  return {
+    type: user && ['ADMIN', 'STAFF'].includes(user.role) ? 'STAFF' : 'GUEST',
+    id: user?.id ?? null
+  };
+}
+
+export interface LifecycleBooking extends ReservedStay {
+  id: string;
+  status: BookingStatus;
+  userId: string | null;
+  pointsRedeemed: number;
+  updatedAt?: Date; // When given, the booking must also be unchanged since it was read
+}
+
+/**
+ * Raised when a booking can't make a transition, e.g. cancelling a stay
+ * that has already begun. The message is safe to show to the caller.
+ */
+export class TransitionError extends Error {
+  constructor(public from: BookingStatus, public to: BookingStatus, detail: string) {
+    super(detail);
+    this.name = 'TransitionError';
+  }
+}
+
+/**
+ * Why a booking can't move to a status now, or null if it can
+ */
+export function transitionBlocker(
+  booking: LifecycleBooking,
+  to: BookingStatus,
+  now: Date = new Date()
+): string | null {
+  const from = booking.status;
+
+  if (from === to) {
+    return `Booking is already ${from}`;
+  }
+  if (!TRANSITIONS[from].includes(to)) {
+    return `A ${from} booking cannot become ${to}`;
+  }
+
+  const today = formatDate(now);
+  const checkIn = formatDate(booking.checkIn);
+  const checkOut = formatDate(booking.checkOut);
+
+  if (from === 'CONFIRMED' && to === 'CANCELLED' && today >= checkIn) {
+    return 'Bookings cannot be cancelled on or after the check-in date';
+  }
+  if (to === 'CHECKED_IN' && today < checkIn) {
+    return 'Guests cannot check in before the check-in date';
+  }
+  if (to === 'CHECKED_IN' && today >= checkOut) {
+    return 'The stay has already ended';
+  }
+  if (to === 'NO_SHOW' && today < checkIn) {
+    return 'A booking cannot be a no-show before its check-in date';
+  }
+
+  return null;
+}
+
+/**
+ * Record a transition in the booking's history. Use transitionBooking to
+ * change an existing booking's status; this is called directly only when a
+ * booking is created.
+ */
+export async function recordTransition(
+  tx: Tx,
+  bookingId: string,
+  fromStatus: BookingStatus | null,
+  toStatus: BookingStatus,
+  actor: Actor,
+  reason?: string | undefined
+): Promise<void> {
+  await tx.bookingTransition.create({
+    data: {
+      bookingId,
+      fromStatus,
+      toStatus,
+      actor: actor.type,
+      actorId: actor.id,
+      reason: reason ?? null
+    }
+  });
+}
+
+/**
+ * Move a booking's inventory to match its new status
+ */
+async function moveInventory(
+  tx: Tx,
+  booking: LifecycleBooking,
+  to: BookingStatus,
+  now: Date
+): Promise<void> {
+  if (to === 'CONFIRMED') {
+    if (booking.status === 'EXPIRED' && !await holdRooms(tx, booking)) {
+      throw new InventoryUnavailableError();
+    }
+    // The hold becomes a booked room
+    await confirmRooms(tx, booking);
+  } else if (booking.status === 'PENDING') {
+    await releaseRooms(tx, booking);
+  } else if (to === 'CANCELLED') {
+    await unbookRooms(tx, booking);
+  } else if (to === 'NO_SHOW' || to === 'CHECKED_OUT') {
+    // Nights from today on go back on sale after a no-show or an early departure
+    const today = new Date(`${formatDate(now)}T00:00:00.000Z`);
+    if (today < booking.checkOut) {
+      await unbookRooms(tx, { ...booking, checkIn: today > booking.checkIn ? today : booking.checkIn });
+    }
+  }
+}
+
+/**
+ * Move the loyalty points a booking redeems to match its new status: held
+ * points are spent once it's paid and given back if it lapses or is
+ * cancelled unpaid. An expired booking revived by a late payment takes its
+ * points again. Cancelling a paid booking reverses the points it redeemed
+ * and any it earned.
+ */
+async function movePoints(tx: Tx, booking: LifecycleBooking, to: BookingStatus): Promise<void> {
+  if (!booking.userId) {
+    return;
+  }
+  const redeeming = { id: booking.id, userId: booking.userId, pointsRedeemed: booking.pointsRedeemed };
+
+  if (to === 'CANCELLED' && booking.status !== 'PENDING') {
+    await reverseBookingPoints(tx, booking.id, { types: ['EARN', 'REDEEM'], reason: 'Booking cancelled' });
+  } else if (booking.pointsRedeemed === 0) {
+    return;
+  } else if (booking.status === 'PENDING' && to === 'CONFIRMED') {
+    await redeemHeldPoints(tx, redeeming);
+  } else if (booking.status === 'PENDING') {
+    await releaseHeldPoints(tx, redeeming);
+  } else if (booking.status === 'EXPIRED' && to === 'CONFIRMED') {
+    if (!await takePoints(tx, redeeming, 'REDEEM')) {
+      throw new PointsUnavailableError();
+    }
+  }
+}
+
+/**
+ * Move a booking to a new status: check the transition is allowed, update
+ * the booking conditionally on the status it was read with, move its
+ * inventory and loyalty points and record who did it. Must run inside a transaction.
+ *
+ * Returns false, changing nothing, if the booking's status (or, when read
+ * with it, anything about it) changed since it was read. Throws TransitionError if the transition isn't allowed, and
+ * InventoryUnavailableError or PointsUnavailableError if an expired
+ * booking's rooms or points are gone, so the caller's transaction rolls back.
+ */
+export async function transitionBooking(
+  tx: Tx,
+  booking: LifecycleBooking,
+  to: BookingStatus,
+  actor: Actor,
+  options: {
+    reason?: string | undefined;
+    data?: Prisma.BookingUpdateManyMutationInput;
+    now?: Date;
+  } = {}
+): Promise<boolean> {
+  const now = options.now ?? new Date();
+  const blocker = transitionBlocker(booking, to, now);
+  if (blocker) {
+    throw new TransitionError(booking.status, to, blocker);
+  }
+
+  const { count } = await tx.booking.updateMany({
+    where: { id: booking.id, status: booking.status, ...(booking.updatedAt ? { updatedAt: booking.updatedAt } : {}) },
+    data: { ...options.data, status: to, holdExpiresAt: null }
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await moveInventory(tx, booking, to, now);
+  await movePoints(tx, booking, to);
+  await recordTransition(tx, booking.id, booking.status, to, actor, options.reason);
+
+  return true;
+}
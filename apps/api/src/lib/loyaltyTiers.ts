@@ -0,0 +1,220 @@
+import { LoyaltyTier, LoyaltyTierChange, Prisma } from '@prisma/client';
+import { calculateNights } from '@podnbeyond/shared';
+import { prisma } from './prisma';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const QUALIFYING_DAYS = 365;
+
+export interface TierMetrics {
+  points: number; // Earned less reversals, before redemptions
+  nights: number;
+  spendPaise: number;
+}
+
+/**
+ * Tier definitions from the lowest rank to the highest
+ */
+export async function loadTiers(): Promise<LoyaltyTier[]> {
+  return prisma.loyaltyTier.findMany({ orderBy: { rank: 'asc' } });
+}
+
+/**
+ * A member qualifies for a tier by meeting any one of its thresholds.
+ * A tier without thresholds is open to everyone.
+ */
+function qualifiesFor(tier: LoyaltyTier, metrics: TierMetrics): boolean {
+  const thresholds: Array<[number | null, number]> = [
+    [tier.minPoints, metrics.points],
+    [tier.minNights, metrics.nights],
+    [tier.minSpendPaise, metrics.spendPaise]
+  ];
+  const set = thresholds.filter((threshold): threshold is [number, number] => threshold[0] !== null);
+
+  return set.length === 0 || set.some(([min, value]) => value >= min);
+}
+
+/**
+ * The highest tier the metrics qualify for, falling back to the lowest.
+ * Null when there are no tiers.
+ */
+export function qualifyingTier(tiers: LoyaltyTier[], metrics: TierMetrics): LoyaltyTier | null {
+  return [...tiers].reverse().find(tier => qualifiesFor(tier, metrics)) ?? tiers[0] ?? null;
+}
+
+/**
+ * The next tier up from the given one, or null at the top
+ */
+export function nextTier(tiers: LoyaltyTier[], current: LoyaltyTier): LoyaltyTier | null {
+  return tiers.find(tier => tier.rank > current.rank) ?? null;
+}
+
+/**
+ * A member's points earned, nights stayed and spend over the 12 months up
+ * to now. Only completed stays count towards nights and spend.
+ */
+export async function tierMetrics(userId: string, now: Date = new Date()): Promise<TierMetrics> {
+  const since = new Date(now.getTime() - QUALIFYING_DAYS * DAY_MS);
+
+  const [earned, stays] = await Promise.all([
+    // Earned points, less any reversed since for a cancellation, refund or chargeback
+    prisma.loyaltyLedger.aggregate({
+      where: {
+        userId,
+        createdAt: { gte: since, lte: now },
+        OR: [{ type: 'EARN' }, { type: 'REVERSAL', original: { type: 'EARN' } }]
+      },
+      _sum: { points: true }
+    }),
+    prisma.booking.findMany({
+      where: { userId, status: 'CHECKED_OUT', checkOut: { gte: since, lte: now } },
+      select: { checkIn: true, checkOut: true, amountPaise: true }
+    })
+  ]);
+
+  return {
+    points: Math.max(0, earned._sum.points ?? 0),
+    nights: stays.reduce((total, stay) => total + calculateNights(stay.checkIn, stay.checkOut), 0),
+    spendPaise: stays.reduce((total, stay) => total + stay.amountPaise, 0)
+  };
+}
+
+function describeQualification(tier: LoyaltyTier, metrics: TierMetrics): string {
+  if (tier.minPoints !== null && metrics.points >= tier.minPoints) {
+    return `Qualified with ${metrics.points} points`;
+  }
+  if (tier.minNights !== null && metrics.nights >= tier.minNights) {
+    return `Qualified with ${metrics.nights} nights`;
+  }
+  if (tier.minSpendPaise !== null && metrics.spendPaise >= tier.minSpendPaise) {
+    return `Qualified with ₹${metrics.spendPaise / 100} spend`;
+  }
+  return 'Qualified';
+}
+
+/**
+ * Move a member to a new tier, recording it in their tier history and
+ * loyalty ledger. Conditional on the tier it was read with, so concurrent
+ * evaluations change it once.
+ */
+async function changeTier(
+  user: { id: string; tier: string },
+  to: LoyaltyTier,
+  reason: string,
+  metrics: TierMetrics
+): Promise<LoyaltyTierChange | null> {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.user.updateMany({
+      where: { id: user.id, tier: user.tier },
+      data: { tier: to.code, tierGraceUntil: null }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const change = await tx.loyaltyTierChange.create({
+      data: {
+        userId: user.id,
+        fromTier: user.tier,
+        toTier: to.code,
+        reason,
+        metrics: metrics as unknown as Prisma.InputJsonObject
+      }
+    });
+
+    await tx.loyaltyLedger.create({
+      data: {
+        userId: user.id,
+        points: 0,
+        type: 'TIER_CHANGE',
+        ref: change.id
+      }
+    });
+
+    return change;
+  });
+}
+
+/**
+ * Re-evaluate a member's tier on their rolling 12 months. Members who
+ * qualify for a higher tier are promoted straight away. Members who no
+ * longer qualify for theirs keep it for the tier's grace period and are
+ * then moved down to the tier they do qualify for; requalifying in the
+ * meantime ends the grace period. Returns the change made, if any.
+ */
+export async function evaluateTier(userId: string, now: Date = new Date()): Promise<LoyaltyTierChange | null> {
+  const tiers = await loadTiers();
+  const metrics = await tierMetrics(userId, now);
+  const qualified = qualifyingTier(tiers, metrics);
+  if (!qualified) {
+    return null;
+  }
+
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { id: true, tier: true, tierGraceUntil: true }
+  });
+  const current = tiers.find(tier => tier.code === user.tier);
+
+  // Members on a tier that no longer exists are placed afresh
+  if (!current || qualified.rank > current.rank) {
+    const change = await changeTier(user, qualified, describeQualification(qualified, metrics), metrics);
+    if (change) {
+      console.log(`🏅 ${userId} moved from ${change.fromTier} to ${change.toTier}`);
+    }
+    return change;
+  }
+
+  if (qualified.rank === current.rank) {
+    if (user.tierGraceUntil) {
+      await prisma.user.update({ where: { id: userId }, data: { tierGraceUntil: null } });
+    }
+    return null;
+  }
+
+  if (!user.tierGraceUntil && current.graceDays > 0) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { tierGraceUntil: new Date(now.getTime() + current.graceDays * DAY_MS) }
+    });
+    return null;
+  }
+
+  if (user.tierGraceUntil && user.tierGraceUntil > now) {
+    return null;
+  }
+
+  const change = await changeTier(
+    user,
+    qualified,
+    current.graceDays > 0 ? 'Grace period ended' : 'No longer qualifies',
+    metrics
+  );
+  if (change) {
+    console.log(`🏅 ${userId} moved from ${change.fromTier} to ${change.toTier}`);
+  }
+  return change;
+}
+
+/**
+ * Re-evaluate every guest's tier. Returns how many changed.
+ */
+export async function evaluateAllTiers(now: Date = new Date()): Promise<number> {
+  const guests = await prisma.user.findMany({
+    where: { role: 'GUEST' },
+    select: { id: true }
+  });
+
+  let changed = 0;
+  for (const { id } of guests) {
+    try {
+      if (await evaluateTier(id, now)) {
+        changed++;
+      }
+    } catch (error) {
+      console.error(`❌ Tier evaluation failed for user ${id}:`, error);
+    }
+  }
+
+  return changed;
+}
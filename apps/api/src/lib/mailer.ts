@@ -0,0 +1,16 @@
+import nodemailer from 'nodemailer';
+import { env } from './env';
+
+const transport = nodemailer.createTransport({
+  host: env.SMTP_HOST,
+  port: env.SMTP_PORT,
+  secure: false
+});
+
+/**
+ * Send a plain-text email. In development it lands in MailHog.
+ */
+export async function sendMail(message: { to: string; subject: string; text: string }): Promise<void> {
+  await transport.sendMail({ from: env.MAIL_FROM, ...message });
+  console.log(`📧 "${message.subject}" sent to ${message.to}`);
+}
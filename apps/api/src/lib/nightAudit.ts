@@ -0,0 +1,88 @@
+import { prisma } from './prisma';
+import { calculateNoShowCharge } from './cancellation';
+import { bookingBalance } from './payments';
+import { refundBooking } from './refunds';
+import { transitionBooking, SYSTEM_ACTOR } from './lifecycle';
+
+// The property keeps Indian Standard Time, which has no daylight saving
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+export interface NoShow {
+  bookingId: string;
+  chargePaise: number;
+  refundedPaise: number; // Paid beyond the charge and sent back
+}
+
+/**
+ * Mark a confirmed booking NO_SHOW with its rate plan's no-show charge,
+ * refunding anything paid beyond the charge. Returns null if the booking
+ * changed since it was read, e.g. the guest checked in meanwhile.
+ */
+async function markNoShow(bookingId: string, now: Date): Promise<NoShow | null> {
+  const booking = await prisma.booking.findUniqueOrThrow({
+    where: { id: bookingId },
+    include: { rooms: true, ratePlan: true, payments: true, refunds: true }
+  });
+
+  const chargePaise = Math.min(calculateNoShowCharge(booking, booking.ratePlan), booking.amountPaise);
+
+  const marked = await prisma.$transaction(tx =>
+    transitionBooking(tx, booking, 'NO_SHOW', SYSTEM_ACTOR, {
+      reason: 'Not arrived by night audit',
+      data: { noShowChargePaise: chargePaise },
+      now
+    })
+  );
+
+  if (!marked) {
+    return null;
+  }
+
+  const { netPaidPaise } = bookingBalance(booking, booking.payments, booking.refunds);
+  const refundedPaise = Math.max(0, netPaidPaise - chargePaise);
+  if (refundedPaise > 0) {
+    await refundBooking({ bookingId: booking.id, amountPaise: refundedPaise, reason: 'NO_SHOW' });
+  }
+
+  return { bookingId: booking.id, chargePaise, refundedPaise };
+}
+
+/**
+ * The business date at the property (IST) as YYYY-MM-DD
+ */
+function businessDate(now: Date): string {
+  return new Date(now.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Close the previous business day: every confirmed booking whose check-in
+ * date has passed without the guest arriving becomes a NO_SHOW. Safe to
+ * run repeatedly; each booking is only marked once.
+ */
+export async function runNightAudit(now: Date = new Date()): Promise<NoShow[]> {
+  const today = new Date(`${businessDate(now)}T00:00:00.000Z`);
+
+  const unarrived = await prisma.booking.findMany({
+    where: { status: 'CONFIRMED', checkIn: { lt: today } },
+    select: { id: true }
+  });
+
+  const noShows: NoShow[] = [];
+  for (const { id } of unarrived) {
+    try {
+      const noShow = await markNoShow(id, now);
+      if (noShow) {
+        noShows.push(noShow);
+      }
+    } catch (error) {
+      // One bad booking shouldn't hold up the rest of the audit
+      console.error(`❌ Night audit failed for booking ${id}:`, error);
+    }
+  }
+
+  if (noShows.length > 0) {
+    console.log(`🌙 Night audit marked ${noShows.length} booking(s) as no-show`);
+  }
+
+  return noShows;
+}
@@ -0,0 +1,251 @@
+import { Payment, PaymentMethod, PaymentMode, PaymentPurpose, PaymentStatus, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { GatewayOrder, GatewayPayment } from '../payments/PaymentProvider';
+import { InventoryUnavailableError } from './inventory';
+import { PointsUnavailableError } from './redemption';
+import { transitionBooking, CONFIRMED_STATUSES, SYSTEM_ACTOR } from './lifecycle';
+
+export interface BookingBalance {
+  paidPaise: number; // Captured payments
+  refundedPaise: number; // Refunds issued or in progress
+  netPaidPaise: number;
+  outstandingPaise: number; // Still to collect; nothing for cancelled or expired bookings
+  dueAtPropertyPaise: number; // Part of the outstanding amount collected at the property
+}
+
+/**
+ * What a rate plan takes online at booking; the rest of the total is paid
+ * at the property. Bookings without a rate plan are paid in full.
+ */
+export function amountDueNow(
+  totalPaise: number,
+  ratePlan: { paymentMode: PaymentMode; depositPct: number | null } | null
+): number {
+  if (ratePlan?.paymentMode === 'PAY_AT_PROPERTY') {
+    return 0;
+  }
+  if (ratePlan?.paymentMode === 'DEPOSIT' && ratePlan.depositPct) {
+    return Math.round(totalPaise * ratePlan.depositPct / 100);
+  }
+  return totalPaise;
+}
+
+/**
+ * Work out what a booking has paid and still owes from its ledger.
+ * Failed payment attempts and failed refunds moved no money. For deposit
+ * and pay-at-property bookings the outstanding amount is due at the
+ * property, except the deposit itself while the booking awaits it. A
+ * no-show owes its no-show charge instead of the stay.
+ */
+export function bookingBalance(
+  booking: {
+    amountPaise: number;
+    status: string;
+    paymentMode?: PaymentMode;
+    dueNowPaise?: number | null;
+    noShowChargePaise?: number | null;
+  },
+  payments: Array<{ amountPaise: number; status: PaymentStatus }>,
+  refunds: Array<{ amountPaise: number; status: string }>
+): BookingBalance {
+  const paidPaise = payments
+    .filter(payment => payment.status === 'CAPTURED')
+    .reduce((total, payment) => total + payment.amountPaise, 0);
+  const refundedPaise = refunds
+    .filter(refund => refund.status !== 'FAILED')
+    .reduce((total, refund) => total + refund.amountPaise, 0);
+  const netPaidPaise = paidPaise - refundedPaise;
+  const closed = booking.status === 'CANCELLED' || booking.status === 'EXPIRED';
+  const owedPaise = booking.status === 'NO_SHOW' ? booking.noShowChargePaise ?? 0 : booking.amountPaise;
+  const outstandingPaise = closed ? 0 : Math.max(0, owedPaise - netPaidPaise);
+
+  let dueAtPropertyPaise = 0;
+  if (booking.paymentMode && booking.paymentMode !== 'FULL') {
+    dueAtPropertyPaise = booking.status === 'PENDING'
+      ? outstandingPaise - (booking.dueNowPaise ?? 0)
+      : outstandingPaise;
+  }
+
+  return {
+    paidPaise,
+    refundedPaise,
+    netPaidPaise,
+    outstandingPaise,
+    dueAtPropertyPaise: Math.max(0, dueAtPropertyPaise)
+  };
+}
+
+/**
+ * Record a gateway order created to collect money for a booking
+ */
+export async function recordOrder(params: {
+  bookingId: string;
+  revisionId?: string;
+  purpose: PaymentPurpose;
+  order: GatewayOrder;
+}): Promise<Payment> {
+  return prisma.payment.create({
+    data: {
+      bookingId: params.bookingId,
+      revisionId: params.revisionId ?? null,
+      purpose: params.purpose,
+      amountPaise: params.order.amount,
+      razorpayOrderId: params.order.id
+    }
+  });
+}
+
+/**
+ * Record money staff took at the property, e.g. the balance of a deposit
+ * or pay-at-property booking collected at check-in
+ */
+export async function recordPropertyPayment(
+  params: {
+    bookingId: string;
+    amountPaise: number;
+    method: Exclude<PaymentMethod, 'ONLINE'>;
+    reference?: string | undefined;
+    recordedBy: string | null;
+  },
+  db: Prisma.TransactionClient = prisma
+): Promise<Payment> {
+  return db.payment.create({
+    data: {
+      bookingId: params.bookingId,
+      purpose: 'BALANCE',
+      method: params.method,
+      amountPaise: params.amountPaise,
+      status: 'CAPTURED',
+      reference: params.reference ?? null,
+      recordedBy: params.recordedBy,
+      capturedAt: new Date()
+    }
+  });
+}
+
+/**
+ * Record a captured or failed payment attempt against its order. The first
+ * attempt fills in the row created with the order; retries on the same
+ * order get rows of their own. A capture reported twice (by the checkout
+ * and the webhook) keeps the latest payload. Returns null for orders we
+ * never created.
+ */
+export async function recordPaymentAttempt(
+  payment: GatewayPayment,
+  status: 'CAPTURED' | 'FAILED'
+): Promise<Payment | null> {
+  const existing =
+    await prisma.payment.findUnique({ where: { razorpayPaymentId: payment.id } }) ??
+    await prisma.payment.findFirst({
+      where: { razorpayOrderId: payment.order_id, razorpayPaymentId: null },
+      orderBy: { createdAt: 'asc' }
+    });
+
+  // A late failure notice must not undo a capture
+  if (existing?.status === 'CAPTURED' && status === 'FAILED') {
+    return existing;
+  }
+
+  const data = {
+    status,
+    razorpayPaymentId: payment.id,
+    amountPaise: payment.amount,
+    failureReason: status === 'FAILED' ? payment.error_description ?? 'Payment failed' : null,
+    payload: payment as unknown as Prisma.InputJsonObject,
+    capturedAt: status === 'CAPTURED' ? existing?.capturedAt ?? new Date() : null
+  };
+
+  if (existing) {
+    return prisma.payment.update({ where: { id: existing.id }, data });
+  }
+
+  const order = await prisma.payment.findFirst({
+    where: { razorpayOrderId: payment.order_id }
+  });
+  if (!order) {
+    return null;
+  }
+
+  return prisma.payment.create({
+    data: {
+      ...data,
+      bookingId: order.bookingId,
+      revisionId: order.revisionId,
+      purpose: order.purpose,
+      razorpayOrderId: payment.order_id
+    }
+  });
+}
+
+export type PaymentConfirmation = 'PAID' | 'ALREADY_PAID' | 'NO_INVENTORY' | 'NOT_PAYABLE';
+
+/**
+ * Raised inside the confirmation transaction when the booking's status
+ * changed after it was read
+ */
+class BookingChangedError extends Error {
+  constructor(bookingId: string) {
+    super(`Booking ${bookingId} changed while processing payment`);
+    this.name = 'BookingChangedError';
+  }
+}
+
+/**
+ * Confirm a booking once its payment is known to be good, from either the
+ * webhook or the client-side verification, whichever comes first. Safe to
+ * call repeatedly. A booking that expired before its payment arrived is
+ * revived if its rooms can still be held.
+ */
+export async function confirmBookingPayment(
+  bookingId: string,
+  razorpayPaymentId: string
+): Promise<PaymentConfirmation> {
+  const booking = await prisma.booking.findUniqueOrThrow({
+    where: { id: bookingId },
+    include: { rooms: true }
+  });
+
+  if (CONFIRMED_STATUSES.includes(booking.status)) {
+    return 'ALREADY_PAID';
+  }
+  if (booking.status !== 'PENDING' && booking.status !== 'EXPIRED') {
+    return 'NOT_PAYABLE';
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const confirmed = await transitionBooking(tx, booking, 'CONFIRMED', SYSTEM_ACTOR, {
+        reason: `Payment ${razorpayPaymentId} captured`,
+        data: { razorpayPaymentId }
+      });
+
+      if (!confirmed) {
+        throw new BookingChangedError(booking.id);
+      }
+    });
+  } catch (error) {
+    // The expired booking's rooms were taken in the meantime
+    if (error instanceof InventoryUnavailableError) {
+      return 'NO_INVENTORY';
+    }
+    // The guest spent the points it was redeeming after it expired
+    if (error instanceof PointsUnavailableError) {
+      return 'NOT_PAYABLE';
+    }
+    // Another request confirmed it first; anything else is retried by the caller
+    if (error instanceof BookingChangedError) {
+      const current = await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } });
+      if (CONFIRMED_STATUSES.includes(current.status)) {
+        return 'ALREADY_PAID';
+      }
+    }
+    throw error;
+  }
+
+  console.log(`✅ Booking ${booking.id} confirmed, inventory updated`);
+  
+  // TODO: Send confirmation email
+  console.log(`📧 Confirmation email should be sent to ${booking.guestEmail}`);
+
+  return 'PAID';
+}
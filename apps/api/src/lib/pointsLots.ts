@@ -0,0 +1,273 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { env } from './env';
+import { sendMail } from './mailer';
+
+type Tx = Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Points taken from one lot by a debit, recorded on its ledger entry so
+ * they can be put back if the debit is undone
+ */
+export interface LotUse {
+  lotId: string;
+  points: number;
+}
+
+/**
+ * Start a lot for points just credited to a guest's balance. Lots never
+ * hold more than the balance, so points that only pay off a negative
+ * balance don't get a lot.
+ */
+export async function addLot(
+  tx: Tx,
+  userId: string,
+  points: number,
+  ledgerId: string | null,
+  now: Date = new Date()
+): Promise<void> {
+  const [user, lots] = await Promise.all([
+    tx.user.findUniqueOrThrow({ where: { id: userId }, select: { points: true } }),
+    tx.pointsLot.aggregate({ where: { userId }, _sum: { remaining: true } })
+  ]);
+  const remaining = Math.min(points, Math.max(0, user.points - (lots._sum.remaining ?? 0)));
+  if (remaining <= 0) {
+    return;
+  }
+
+  await tx.pointsLot.create({
+    data: {
+      userId,
+      ledgerId,
+      points: remaining,
+      remaining,
+      expiresAt: new Date(now.getTime() + env.LOYALTY_POINTS_EXPIRY_DAYS * DAY_MS)
+    }
+  });
+}
+
+/**
+ * Take points from a guest's lots, those expiring soonest first. A lot
+ * can be named to be taken from before the rest, e.g. the one an earn
+ * being reversed created. Takes what it can if the lots hold less.
+ */
+export async function consumeLots(
+  tx: Tx,
+  userId: string,
+  points: number,
+  firstLedgerId?: string
+): Promise<LotUse[]> {
+  // Lock the guest's lots so concurrent debits take from them one at a time
+  // and each sees what the last left
+  await tx.$queryRaw`
+    SELECT "id"
+    FROM "points_lots"
+    WHERE "userId" = ${userId}
+      AND "remaining" > 0
+    ORDER BY "id"
+    FOR UPDATE
+  `;
+
+  const lots = await tx.pointsLot.findMany({
+    where: { userId, remaining: { gt: 0 } },
+    orderBy: [{ expiresAt: 'asc' }, { createdAt: 'asc' }]
+  });
+  const ordered = [
+    ...lots.filter(lot => lot.ledgerId !== null && lot.ledgerId === firstLedgerId),
+    ...lots.filter(lot => lot.ledgerId === null || lot.ledgerId !== firstLedgerId)
+  ];
+
+  const used: LotUse[] = [];
+  let left = points;
+  for (const lot of ordered) {
+    if (left === 0) {
+      break;
+    }
+    const take = Math.min(lot.remaining, left);
+
+    await tx.pointsLot.update({
+      where: { id: lot.id },
+      data: { remaining: { decrement: take } }
+    });
+    used.push({ lotId: lot.id, points: take });
+    left -= take;
+  }
+
+  return used;
+}
+
+/**
+ * Put points back into the lots a debit took them from, most recently
+ * taken first. Points put back into a lot past its expiry date expire at
+ * the next run of the expiry job. Returns how many couldn't be put back.
+ */
+export async function restoreLots(tx: Tx, usage: LotUse[], points: number): Promise<number> {
+  let left = points;
+  for (const use of [...usage].reverse()) {
+    if (left === 0) {
+      break;
+    }
+    const restore = Math.min(use.points, left);
+    await tx.pointsLot.update({
+      where: { id: use.lotId },
+      data: { remaining: { increment: restore } }
+    });
+    left -= restore;
+  }
+  return left;
+}
+
+/**
+ * The lot usage recorded on a debit's ledger entry
+ */
+export function lotUsageOf(entry: { lotUsage: Prisma.JsonValue }): LotUse[] {
+  return (entry.lotUsage as unknown as LotUse[] | null) ?? [];
+}
+
+/**
+ * Points in a guest's lots expiring within the given number of days
+ */
+export async function expiringPoints(userId: string, days: number, now: Date = new Date()) {
+  const lots = await prisma.pointsLot.findMany({
+    where: { userId, remaining: { gt: 0 }, expiresAt: { gt: now, lte: new Date(now.getTime() + days * DAY_MS) } },
+    orderBy: { expiresAt: 'asc' },
+    select: { remaining: true, expiresAt: true }
+  });
+
+  return {
+    withinDays: days,
+    points: lots.reduce((total, lot) => total + lot.remaining, 0),
+    lots: lots.map(lot => ({ points: lot.remaining, expiresAt: lot.expiresAt }))
+  };
+}
+
+/**
+ * Expire what's left of every lot past its expiry date, posting an EXPIRE
+ * entry per lot. Returns the points expired.
+ */
+export async function expireLots(now: Date = new Date()): Promise<number> {
+  const lots = await prisma.pointsLot.findMany({
+    where: { remaining: { gt: 0 }, expiresAt: { lte: now } }
+  });
+
+  let expired = 0;
+  for (const lot of lots) {
+    try {
+      const taken = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.pointsLot.updateMany({
+          where: { id: lot.id, remaining: lot.remaining },
+          data: { remaining: 0 }
+        });
+        if (count === 0) {
+          return 0;
+        }
+
+        await tx.loyaltyLedger.create({
+          data: {
+            userId: lot.userId,
+            points: -lot.remaining,
+            type: 'EXPIRE',
+            ref: lot.id,
+            lotUsage: [{ lotId: lot.id, points: lot.remaining }] as unknown as Prisma.InputJsonArray
+          }
+        });
+        await tx.user.update({
+          where: { id: lot.userId },
+          data: { points: { decrement: lot.remaining } }
+        });
+
+        return lot.remaining;
+      });
+      expired += taken;
+    } catch (error) {
+      console.error(`❌ Failed to expire points lot ${lot.id}:`, error);
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Email every guest with points expiring within the reminder window that
+ * they haven't been reminded about. Returns how many were emailed.
+ */
+export async function sendExpiryReminders(now: Date = new Date()): Promise<number> {
+  const lots = await prisma.pointsLot.findMany({
+    where: {
+      remaining: { gt: 0 },
+      remindedAt: null,
+      expiresAt: { gt: now, lte: new Date(now.getTime() + env.LOYALTY_EXPIRY_REMINDER_DAYS * DAY_MS) }
+    },
+    include: { user: { select: { email: true, name: true } } },
+    orderBy: { expiresAt: 'asc' }
+  });
+
+  const byUser = new Map<string, typeof lots>();
+  for (const lot of lots) {
+    byUser.set(lot.userId, [...(byUser.get(lot.userId) ?? []), lot]);
+  }
+
+  let reminded = 0;
+  for (const userLots of byUser.values()) {
+    // Lots are in expiry order, so the first expires soonest
+    const [first] = userLots;
+    if (!first) {
+      continue;
+    }
+    const { user } = first;
+    const points = userLots.reduce((total, lot) => total + lot.remaining, 0);
+    const soonest = first.expiresAt.toISOString().split('T')[0];
+
+    try {
+      await sendMail({
+        to: user.email,
+        subject: `${points} Pod & Beyond points are about to expire`,
+        text: [
+          `Hi ${user.name ?? 'there'},`,
+          '',
+          `${points} of your loyalty points expire soon, the first on ${soonest}.`,
+          'Redeem them against your next stay at checkout before they go.',
+        ].join('\n')
+      });
+
+      await prisma.pointsLot.updateMany({
+        where: { id: { in: userLots.map(lot => lot.id) } },
+        data: { remindedAt: now }
+      });
+      reminded++;
+    } catch (error) {
+      // Left unreminded, so the next run tries again
+      console.error(`❌ Failed to send points expiry reminder to ${user.email}:`, error);
+    }
+  }
+
+  return reminded;
+}
+
+/**
+ * Give balances from before points lots existed a lot of their own,
+ * expiring a full expiry period from now. Guests with a lot already are
+ * left alone, so running it again extends nobody's expiry. Run once, by
+ * prisma/backfillPointsLots.ts.
+ */
+export async function backfillLots(now: Date = new Date()): Promise<number> {
+  const users = await prisma.user.findMany({
+    where: { points: { gt: 0 }, pointsLots: { none: {} } },
+    select: { id: true }
+  });
+
+  let backfilled = 0;
+  for (const { id } of users) {
+    await prisma.$transaction(async (tx) => {
+      const before = await tx.pointsLot.count({ where: { userId: id } });
+      await addLot(tx, id, Number.MAX_SAFE_INTEGER, null, now);
+      if (await tx.pointsLot.count({ where: { userId: id } }) > before) {
+        backfilled++;
+      }
+    });
+  }
+
+  return backfilled;
+}
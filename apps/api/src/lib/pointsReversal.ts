@@ -0,0 +1,141 @@
+import { LoyaltyLedger, Prisma } from '@prisma/client';
+import { env } from './env';
+import { addLot, consumeLots, lotUsageOf, restoreLots } from './pointsLots';
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * Post a REVERSAL against part of an EARN or REDEEM entry. The amount is
+ * claimed on the original first, conditional on what had been reversed
+ * when it was read, so no part of it is reversed twice. Returns the change
+ * to the guest's balance.
+ */
+async function reverseEntry(tx: Tx, entry: LoyaltyLedger, amount: number, reason: string): Promise<number> {
+  const { count } = await tx.loyaltyLedger.updateMany({
+    where: { id: entry.id, reversedPoints: entry.reversedPoints },
+    data: { reversedPoints: { increment: amount } }
+  });
+
+  if (count === 0) {
+    return 0;
+  }
+
+  // Redeemed points go back to the guest, into the lots they came from
+  if (entry.type === 'REDEEM') {
+    const reversal = await tx.loyaltyLedger.create({
+      data: { userId: entry.userId, points: amount, type: 'REVERSAL', ref: entry.ref, reversalOf: entry.id, reason }
+    });
+    await tx.user.update({
+      where: { id: entry.userId },
+      data: { points: { increment: amount } }
+    });
+    const unrestored = await restoreLots(tx, lotUsageOf(entry), amount);
+    if (unrestored > 0) {
+      await addLot(tx, entry.userId, unrestored, reversal.id);
+    }
+    return amount;
+  }
+
+  // Earned points are taken back, even if already spent, unless the policy
+  // is to stop at zero and take the rest from later earnings
+  let taken = amount;
+  if (env.LOYALTY_REVERSAL_POLICY === 'CLAWBACK') {
+    const user = await tx.user.findUniqueOrThrow({ where: { id: entry.userId }, select: { points: true } });
+    taken = Math.min(amount, Math.max(0, user.points));
+  }
+  const owed = amount - taken;
+
+  // From the lot the earn started where it still holds them
+  const lotUsage = await consumeLots(tx, entry.userId, taken, entry.id);
+
+  await tx.loyaltyLedger.create({
+    data: {
+      userId: entry.userId,
+      points: -taken,
+      type: 'REVERSAL',
+      ref: entry.ref,
+      reversalOf: entry.id,
+      reason: owed > 0 ? `${reason}; ${owed} points owed` : reason,
+      lotUsage: lotUsage as unknown as Prisma.InputJsonArray
+    }
+  });
+  await tx.user.update({
+    where: { id: entry.userId },
+    data: { points: { decrement: taken }, pointsOwed: { increment: owed } }
+  });
+
+  return -taken;
+}
+
+/**
+ * Reverse a booking's earned and/or redeemed points, posting a REVERSAL
+ * that references each original entry. Without a share, whatever hasn't
+ * been reversed yet is; with one (e.g. the refunded part of what was paid)
+ * that share of each entry is, up to what's left of it. Safe to repeat.
+ * Returns the net change to the guest's balance.
+ */
+export async function reverseBookingPoints(
+  tx: Tx,
+  bookingId: string,
+  options: {
+    types: Array<'EARN' | 'REDEEM'>;
+    share?: number;
+    reason: string;
+  }
+): Promise<number> {
+  const entries = await tx.loyaltyLedger.findMany({
+    where: { ref: bookingId, type: { in: options.types } },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  let change = 0;
+  for (const entry of entries) {
+    const size = Math.abs(entry.points);
+    const remaining = size - entry.reversedPoints;
+    const amount = options.share === undefined
+      ? remaining
+      : Math.min(remaining, Math.round(size * Math.min(1, options.share)));
+
+    if (amount > 0) {
+      change += await reverseEntry(tx, entry, amount, options.reason);
+    }
+  }
+
+  return change;
+}
+
+/**
+ * Take points a guest owes from earlier reversals out of points they've
+ * just earned on a booking. Returns how many were taken.
+ */
+export async function clawBackOwedPoints(
+  tx: Tx,
+  userId: string,
+  bookingId: string,
+  earnedPoints: number
+): Promise<number> {
+  const user = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { pointsOwed: true } });
+  const clawed = Math.min(user.pointsOwed, earnedPoints);
+  if (clawed <= 0) {
+    return 0;
+  }
+
+  const lotUsage = await consumeLots(tx, userId, clawed);
+
+  await tx.loyaltyLedger.create({
+    data: {
+      userId,
+      points: -clawed,
+      type: 'CLAWBACK',
+      ref: bookingId,
+      reason: 'Owed from an earlier reversal',
+      lotUsage: lotUsage as unknown as Prisma.InputJsonArray
+    }
+  });
+  await tx.user.update({
+    where: { id: userId },
+    data: { points: { decrement: clawed }, pointsOwed: { decrement: clawed } }
+  });
+
+  return clawed;
+}
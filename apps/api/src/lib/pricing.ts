@@ -0,0 +1,68 @@
+import { buildPriceQuote, formatDate, PriceQuote, PriceQuoteInput } from '@podnbeyond/shared';
+import { prisma } from './prisma';
+import { taxConfig } from './tax';
+
+export type RateCalendar = Map<string, Record<string, number>>;
+
+function calendarKey(roomTypeId: string, ratePlanId: string): string {
+  return `${roomTypeId}:${ratePlanId}`;
+}
+
+/**
+ * Load rate calendar entries for the given room types over [start, end)
+ */
+export async function loadRateCalendar(
+  roomTypeIds: string[],
+  startDate: Date,
+  endDate: Date
+): Promise<RateCalendar> {
+  const dailyRates = await prisma.dailyRate.findMany({
+    where: {
+      roomTypeId: { in: roomTypeIds },
+      date: {
+        gte: startDate,
+        lt: endDate
+      }
+    }
+  });
+
+  const calendar: RateCalendar = new Map();
+  for (const dailyRate of dailyRates) {
+    const key = calendarKey(dailyRate.roomTypeId, dailyRate.ratePlanId);
+    const rates = calendar.get(key) ?? {};
+    rates[formatDate(dailyRate.date)] = dailyRate.rate;
+    calendar.set(key, rates);
+  }
+
+  return calendar;
+}
+
+/**
+ * Get the nightly rate overrides for a room type and rate plan
+ */
+export function getNightlyRates(
+  calendar: RateCalendar,
+  roomTypeId: string,
+  ratePlanId: string | undefined
+): Record<string, number> {
+  if (!ratePlanId) {
+    return {};
+  }
+
+  return calendar.get(calendarKey(roomTypeId, ratePlanId)) ?? {};
+}
+
+/**
+ * Quote a stay using the rate calendar, falling back to the base rate
+ */
+export async function quoteStay(
+  input: Omit<PriceQuoteInput, 'nightlyRates' | 'taxConfig'>
+): Promise<PriceQuote> {
+  const calendar = await loadRateCalendar([input.roomType.id], input.checkIn, input.checkOut);
+
+  return buildPriceQuote({
+    ...input,
+    nightlyRates: getNightlyRates(calendar, input.roomType.id, input.ratePlan?.id),
+    taxConfig
+  });
+}
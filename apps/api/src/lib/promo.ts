@@ -0,0 +1,139 @@
+import { Prisma, PromoCode } from '@prisma/client';
+import { calculateNights, formatDate } from '@podnbeyond/shared';
+import { prisma } from './prisma';
+
+type Tx = Prisma.TransactionClient;
+
+interface PromoGuest {
+  userId?: string | undefined;
+  guestEmail?: string | undefined;
+}
+
+export type PromoValidation =
+  | { valid: true; promoCode: PromoCode }
+  | { valid: false; reason: string };
+
+/**
+ * Raised inside a booking transaction to roll it back when a promo code's
+ * usage caps were reached since it was validated
+ */
+export class PromoUnavailableError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'PromoUnavailableError';
+  }
+}
+
+/**
+ * Whether a promo code discounts a given room type
+ */
+export function promoAppliesTo(promoCode: PromoCode, roomTypeId: string): boolean {
+  return promoCode.roomTypeIds.length === 0 || promoCode.roomTypeIds.includes(roomTypeId);
+}
+
+/**
+ * Check a promo code against a stay. For multi-room stays at least one
+ * room must be eligible. Redemptions on cancelled or expired bookings do
+ * not count towards usage caps.
+ */
+export async function validatePromoCode(params: PromoGuest & {
+  code: string;
+  roomTypeIds: string[];
+  checkIn: Date;
+  checkOut: Date;
+  now?: Date;
+}): Promise<PromoValidation> {
+  const now = params.now ?? new Date();
+  const promoCode = await prisma.promoCode.findUnique({
+    where: { code: params.code.trim().toUpperCase() }
+  });
+
+  if (!promoCode || !promoCode.active) {
+    return { valid: false, reason: 'Promo code is not valid' };
+  }
+
+  if ((promoCode.validFrom && now < promoCode.validFrom) || (promoCode.validTo && now > promoCode.validTo)) {
+    return { valid: false, reason: 'Promo code is not currently available' };
+  }
+
+  // Every night of the stay must fall inside the stay window
+  const lastNight = new Date(params.checkOut);
+  lastNight.setUTCDate(lastNight.getUTCDate() - 1);
+  if (
+    (promoCode.stayFrom && formatDate(params.checkIn) < formatDate(promoCode.stayFrom)) ||
+    (promoCode.stayTo && formatDate(lastNight) > formatDate(promoCode.stayTo))
+  ) {
+    return { valid: false, reason: 'Promo code is not valid for these stay dates' };
+  }
+
+  if (promoCode.minNights && calculateNights(params.checkIn, params.checkOut) < promoCode.minNights) {
+    return { valid: false, reason: `Promo code requires a minimum stay of ${promoCode.minNights} nights` };
+  }
+
+  if (!params.roomTypeIds.some(roomTypeId => promoAppliesTo(promoCode, roomTypeId))) {
+    return { valid: false, reason: 'Promo code is not valid for this room type' };
+  }
+
+  const capReason = await usageCapReason(prisma, promoCode, params);
+  if (capReason) {
+    return { valid: false, reason: capReason };
+  }
+
+  return { valid: true, promoCode };
+}
+
+/**
+ * Why a promo code's usage caps stop a guest using it, if they do
+ */
+async function usageCapReason(db: Tx, promoCode: PromoCode, guest: PromoGuest): Promise<string | null> {
+  const activeRedemption = { promoCodeId: promoCode.id, booking: { status: { notIn: ['CANCELLED' as const, 'EXPIRED' as const] } } };
+
+  if (promoCode.maxRedemptions !== null) {
+    const redemptions = await db.promoRedemption.count({ where: activeRedemption });
+    if (redemptions >= promoCode.maxRedemptions) {
+      return 'Promo code has been fully redeemed';
+    }
+  }
+
+  if (promoCode.maxPerUser !== null) {
+    const guestFilters = [
+      ...(guest.userId ? [{ userId: guest.userId }] : []),
+      ...(guest.guestEmail ? [{ guestEmail: guest.guestEmail.toLowerCase() }] : [])
+    ];
+
+    if (guestFilters.length > 0) {
+      const redemptions = await db.promoRedemption.count({
+        where: { ...activeRedemption, OR: guestFilters }
+      });
+      if (redemptions >= promoCode.maxPerUser) {
+        return 'Promo code usage limit reached for this guest';
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a promo code's usage caps again in the transaction that redeems
+ * it, with the code's row locked until it commits, so concurrent checkouts
+ * are counted one after another and can't overrun a cap. Throws
+ * PromoUnavailableError when a cap has been reached.
+ */
+export async function lockPromoUsage(tx: Tx, promoCode: PromoCode, guest: PromoGuest): Promise<void> {
+  if (promoCode.maxRedemptions === null && promoCode.maxPerUser === null) {
+    return;
+  }
+
+  await tx.$queryRaw`
+    SELECT "id"
+    FROM "promo_codes"
+    WHERE "id" = ${promoCode.id}
+    FOR UPDATE
+  `;
+
+  const reason = await usageCapReason(tx, promoCode, guest);
+  if (reason) {
+    throw new PromoUnavailableError(reason);
+  }
+}
@@ -0,0 +1,355 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { Prisma, ReconciliationReport } from '@prisma/client';
+import { prisma } from './prisma';
+import { env } from './env';
+import { paymentProvider } from './gateway';
+import { CONFIRMED_STATUSES } from './lifecycle';
+import { GatewayPayment, GatewaySettlementItem } from '../payments/PaymentProvider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const IST_OFFSET = '+05:30'; // Razorpay settles on Indian business days
+
+// Gateway statuses for payments that took money, even if refunded since
+const CAPTURED_STATUSES = ['captured', 'refunded'];
+
+export type ReconciliationIssue =
+  | 'CAPTURED_WITHOUT_CONFIRMED_BOOKING'
+  | 'PAID_WITHOUT_CAPTURE'
+  | 'AMOUNT_MISMATCH'
+  | 'UNRECORDED_REFUND';
+
+export interface ReconciliationRow {
+  kind: 'PAYMENT' | 'REFUND' | 'BOOKING';
+  issue: ReconciliationIssue | null;
+  detail: string | null;
+  bookingId: string | null;
+  bookingStatus: string | null;
+  razorpayOrderId: string | null;
+  razorpayPaymentId: string | null;
+  razorpayRefundId: string | null;
+  recordedPaise: number | null; // Our payment or refund record
+  gatewayPaise: number | null; // Captured or refunded at the gateway
+  settledPaise: number | null;
+  feePaise: number | null;
+  taxPaise: number | null;
+  settlementId: string | null;
+}
+
+export interface ReconciliationSummary {
+  payments: number;
+  refunds: number;
+  issues: number;
+  byIssue: Record<ReconciliationIssue, number>;
+  capturedPaise: number;
+  settledPaise: number;
+  feePaise: number;
+  taxPaise: number;
+}
+
+const fixtureSchema = z.object({
+  payments: z.array(z.object({
+    id: z.string(),
+    order_id: z.string(),
+    amount: z.number().int(),
+    status: z.string(),
+    created_at: z.number().int(),
+  }).passthrough()).default([]),
+  settlements: z.array(z.object({
+    entity_id: z.string(),
+    type: z.string(),
+    payment_id: z.string().nullable().default(null),
+    order_id: z.string().nullable().default(null),
+    amount: z.number().int(),
+    fee: z.number().int().default(0),
+    tax: z.number().int().default(0),
+    settled: z.boolean().default(true),
+    settlement_id: z.string().nullable().default(null),
+    settled_at: z.number().int().nullable().default(null),
+  })).default([]),
+});
+
+/**
+ * The IST calendar day a Unix timestamp falls on, as YYYY-MM-DD
+ */
+function istDate(timestamp: number): string {
+  return new Date(timestamp * 1000 + 5.5 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Gateway payments and settlements to reconcile against: the recorded JSON
+ * at RECONCILIATION_FIXTURE_PATH when set, otherwise the payment provider
+ */
+async function fetchGatewayRecords(date: string, from: Date, to: Date): Promise<{
+  source: string;
+  payments: GatewayPayment[];
+  settlements: GatewaySettlementItem[];
+}> {
+  if (env.RECONCILIATION_FIXTURE_PATH) {
+    const fixture = fixtureSchema.parse(JSON.parse(readFileSync(env.RECONCILIATION_FIXTURE_PATH, 'utf8')));
+
+    return {
+      source: 'fixture',
+      payments: fixture.payments.filter(payment =>
+        payment.created_at * 1000 >= from.getTime() && payment.created_at * 1000 < to.getTime()
+      ),
+      settlements: fixture.settlements.filter(item => item.settled_at !== null && istDate(item.settled_at) === date)
+    };
+  }
+
+  return {
+    source: paymentProvider.name,
+    payments: await paymentProvider.listPayments(from, to),
+    settlements: await paymentProvider.listSettlements(date)
+  };
+}
+
+function formatRupees(paise: number): string {
+  return `₹${(paise / 100).toFixed(2)}`;
+}
+
+/**
+ * Compare a day's gateway payments and settlements with our records and
+ * store the report, replacing any earlier run for the same day. Flags
+ * captured payments without a confirmed booking, confirmed bookings whose
+ * payment the gateway never captured, amounts that differ, and settled
+ * refunds we have no record of.
+ */
+export async function reconcileDay(date: string): Promise<ReconciliationReport> {
+  const from = new Date(`${date}T00:00:00${IST_OFFSET}`);
+  const to = new Date(from.getTime() + DAY_MS);
+
+  // Bookings made just before midnight may be paid just after it
+  const gateway = await fetchGatewayRecords(date, from, new Date(to.getTime() + env.BOOKING_HOLD_MINUTES * 60 * 1000));
+
+  const captured = gateway.payments.filter(payment => CAPTURED_STATUSES.includes(payment.status));
+  const capturedById = new Map(captured.map(payment => [payment.id, payment]));
+  const settledPayments = new Map(
+    gateway.settlements.filter(item => item.type === 'payment').map(item => [item.entity_id, item])
+  );
+  const settledRefunds = gateway.settlements.filter(item => item.type === 'refund');
+
+  // Payments captured on the day, plus earlier captures settled on it
+  const paymentIds = Array.from(new Set([
+    ...captured
+      .filter(payment => (payment.created_at ?? 0) * 1000 < to.getTime())
+      .map(payment => payment.id),
+    ...settledPayments.keys()
+  ]));
+  const orderIds = paymentIds
+    .map(id => capturedById.get(id)?.order_id ?? settledPayments.get(id)?.order_id)
+    .filter((orderId): orderId is string => Boolean(orderId));
+
+  const records = await prisma.payment.findMany({
+    where: {
+      OR: [
+        { razorpayPaymentId: { in: paymentIds } },
+        { razorpayOrderId: { in: orderIds } }
+      ]
+    },
+    include: { booking: { select: { id: true, status: true } } },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const rows: ReconciliationRow[] = [];
+
+  for (const id of paymentIds) {
+    const payment = capturedById.get(id);
+    const settlement = settledPayments.get(id);
+    const orderId = payment?.order_id ?? settlement?.order_id ?? null;
+    const gatewayPaise = payment?.amount ?? settlement?.amount ?? 0;
+
+    // A capture we never heard about still has the row created with its order
+    const record =
+      records.find(candidate => candidate.razorpayPaymentId === id) ??
+      records.find(candidate => candidate.razorpayOrderId === orderId) ??
+      null;
+
+    let issue: ReconciliationIssue | null = null;
+    let detail: string | null = null;
+    if (!record) {
+      issue = 'CAPTURED_WITHOUT_CONFIRMED_BOOKING';
+      detail = 'No booking for this payment\'s order';
+    } else if (!CONFIRMED_STATUSES.includes(record.booking.status)) {
+      issue = 'CAPTURED_WITHOUT_CONFIRMED_BOOKING';
+      detail = `Booking is ${record.booking.status}`;
+    } else if (record.razorpayPaymentId !== id || record.status !== 'CAPTURED') {
+      issue = 'CAPTURED_WITHOUT_CONFIRMED_BOOKING';
+      detail = 'Capture not recorded against the booking';
+    } else if (record.amountPaise !== gatewayPaise) {
+      issue = 'AMOUNT_MISMATCH';
+      detail = `Recorded ${formatRupees(record.amountPaise)}, captured ${formatRupees(gatewayPaise)}`;
+    } else if (settlement && settlement.amount !== gatewayPaise) {
+      issue = 'AMOUNT_MISMATCH';
+      detail = `Captured ${formatRupees(gatewayPaise)}, settled ${formatRupees(settlement.amount)}`;
+    }
+
+    rows.push({
+      kind: 'PAYMENT',
+      issue,
+      detail,
+      bookingId: record?.bookingId ?? null,
+      bookingStatus: record?.booking.status ?? null,
+      razorpayOrderId: orderId,
+      razorpayPaymentId: id,
+      razorpayRefundId: null,
+      recordedPaise: record?.amountPaise ?? null,
+      gatewayPaise,
+      settledPaise: settlement?.amount ?? null,
+      feePaise: settlement?.fee ?? null,
+      taxPaise: settlement?.tax ?? null,
+      settlementId: settlement?.settlement_id ?? null
+    });
+  }
+
+  // Bookings confirmed on an online payment the gateway has no capture for
+  const paidBookings = await prisma.booking.findMany({
+    where: {
+      status: { in: CONFIRMED_STATUSES },
+      createdAt: { gte: from, lt: to },
+      OR: [{ dueNowPaise: null }, { dueNowPaise: { gt: 0 } }]
+    },
+    include: { payments: { where: { purpose: 'BOOKING', method: 'ONLINE' } } }
+  });
+
+  for (const booking of paidBookings) {
+    const capture = booking.payments.find(payment =>
+      payment.razorpayPaymentId && capturedById.has(payment.razorpayPaymentId)
+    );
+    if (capture) {
+      continue;
+    }
+
+    const recorded = booking.payments.find(payment => payment.status === 'CAPTURED') ?? booking.payments[0];
+    rows.push({
+      kind: 'BOOKING',
+      issue: 'PAID_WITHOUT_CAPTURE',
+      detail: recorded?.razorpayPaymentId
+        ? 'Gateway has no capture for the recorded payment'
+        : 'No payment recorded',
+      bookingId: booking.id,
+      bookingStatus: booking.status,
+      razorpayOrderId: booking.razorpayOrderId,
+      razorpayPaymentId: recorded?.razorpayPaymentId ?? booking.razorpayPaymentId,
+      razorpayRefundId: null,
+      recordedPaise: recorded?.amountPaise ?? booking.dueNowPaise ?? booking.amountPaise,
+      gatewayPaise: null,
+      settledPaise: null,
+      feePaise: null,
+      taxPaise: null,
+      settlementId: null
+    });
+  }
+
+  const refunds = await prisma.refund.findMany({
+    where: { razorpayRefundId: { in: settledRefunds.map(item => item.entity_id) } },
+    include: { booking: { select: { id: true, status: true } } }
+  });
+
+  for (const item of settledRefunds) {
+    const refund = refunds.find(candidate => candidate.razorpayRefundId === item.entity_id);
+
+    let issue: ReconciliationIssue | null = null;
+    let detail: string | null = null;
+    if (!refund) {
+      issue = 'UNRECORDED_REFUND';
+      detail = 'No refund recorded for this gateway refund';
+    } else if (refund.amountPaise !== item.amount) {
+      issue = 'AMOUNT_MISMATCH';
+      detail = `Recorded ${formatRupees(refund.amountPaise)}, refunded ${formatRupees(item.amount)}`;
+    }
+
+    rows.push({
+      kind: 'REFUND',
+      issue,
+      detail,
+      bookingId: refund?.bookingId ?? null,
+      bookingStatus: refund?.booking.status ?? null,
+      razorpayOrderId: item.order_id ?? null,
+      razorpayPaymentId: item.payment_id ?? refund?.razorpayPaymentId ?? null,
+      razorpayRefundId: item.entity_id,
+      recordedPaise: refund?.amountPaise ?? null,
+      gatewayPaise: item.amount,
+      settledPaise: item.amount,
+      feePaise: item.fee,
+      taxPaise: item.tax,
+      settlementId: item.settlement_id
+    });
+  }
+
+  const flagged = rows.filter(row => row.issue);
+  const summary: ReconciliationSummary = {
+    payments: rows.filter(row => row.kind === 'PAYMENT').length,
+    refunds: rows.filter(row => row.kind === 'REFUND').length,
+    issues: flagged.length,
+    byIssue: {
+      CAPTURED_WITHOUT_CONFIRMED_BOOKING: flagged.filter(row => row.issue === 'CAPTURED_WITHOUT_CONFIRMED_BOOKING').length,
+      PAID_WITHOUT_CAPTURE: flagged.filter(row => row.issue === 'PAID_WITHOUT_CAPTURE').length,
+      AMOUNT_MISMATCH: flagged.filter(row => row.issue === 'AMOUNT_MISMATCH').length,
+      UNRECORDED_REFUND: flagged.filter(row => row.issue === 'UNRECORDED_REFUND').length
+    },
+    capturedPaise: rows
+      .filter(row => row.kind === 'PAYMENT' && row.razorpayPaymentId !== null && capturedById.has(row.razorpayPaymentId))
+      .reduce((total, row) => total + (row.gatewayPaise ?? 0), 0),
+    settledPaise: gateway.settlements.reduce(
+      (total, item) => total + (item.type === 'refund' ? -item.amount : item.amount), 0
+    ),
+    feePaise: gateway.settlements.reduce((total, item) => total + item.fee, 0),
+    taxPaise: gateway.settlements.reduce((total, item) => total + item.tax, 0)
+  };
+
+  const data = {
+    source: gateway.source,
+    summary: summary as unknown as Prisma.InputJsonObject,
+    rows: rows as unknown as Prisma.InputJsonArray
+  };
+  const report = await prisma.reconciliationReport.upsert({
+    where: { date },
+    create: { date, ...data },
+    update: data
+  });
+
+  console.log(`📒 Reconciled ${date} against ${gateway.source}: ${rows.length} item(s), ${flagged.length} issue(s)`);
+  return report;
+}
+
+const CSV_COLUMNS: Array<[string, (row: ReconciliationRow) => string | number | null]> = [
+  ['Kind', row => row.kind],
+  ['Issue', row => row.issue],
+  ['Detail', row => row.detail],
+  ['Booking ID', row => row.bookingId],
+  ['Booking status', row => row.bookingStatus],
+  ['Order ID', row => row.razorpayOrderId],
+  ['Payment ID', row => row.razorpayPaymentId],
+  ['Refund ID', row => row.razorpayRefundId],
+  ['Recorded (INR)', row => row.recordedPaise === null ? null : (row.recordedPaise / 100).toFixed(2)],
+  ['Gateway (INR)', row => row.gatewayPaise === null ? null : (row.gatewayPaise / 100).toFixed(2)],
+  ['Settled (INR)', row => row.settledPaise === null ? null : (row.settledPaise / 100).toFixed(2)],
+  ['Fee (INR)', row => row.feePaise === null ? null : (row.feePaise / 100).toFixed(2)],
+  ['Tax (INR)', row => row.taxPaise === null ? null : (row.taxPaise / 100).toFixed(2)],
+  ['Settlement ID', row => row.settlementId]
+];
+
+function csvValue(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * A stored report as CSV, one line per row, for finance to download
+ */
+export function reconciliationCsv(report: ReconciliationReport): string {
+  const rows = report.rows as unknown as ReconciliationRow[];
+
+  return [
+    CSV_COLUMNS.map(([header]) => csvValue(header)).join(','),
+    ...rows.map(row => CSV_COLUMNS.map(([, value]) => csvValue(value(row))).join(','))
+  ].join('\n') + '\n';
+}
+
+/**
+ * Yesterday's date in IST, the last day whose payments are complete
+ */
+export function previousDay(now: Date = new Date()): string {
+  return istDate(Math.floor(now.getTime() / 1000) - DAY_MS / 1000);
+}
@@ -0,0 +1,110 @@
+import { LoyaltyActionType, Prisma } from '@prisma/client';
+import { env } from './env';
+import { addLot, consumeLots, lotUsageOf, restoreLots } from './pointsLots';
+
+type Tx = Prisma.TransactionClient;
+
+export const POINT_VALUE_PAISE = 100; // 1 point = ₹1
+
+/**
+ * Raised inside a transaction to roll it back when the guest no longer has
+ * the points a booking redeems
+ */
+export class PointsUnavailableError extends Error {
+  constructor() {
+    super('Not enough loyalty points');
+    this.name = 'PointsUnavailableError';
+  }
+}
+
+/**
+ * The most points that can go towards a stay: the configured cap per
+ * booking, and never more than the stay costs
+ */
+export function maxRedeemablePoints(totalPaise: number): number {
+  return Math.min(env.LOYALTY_MAX_REDEEM_POINTS, Math.floor(totalPaise / POINT_VALUE_PAISE));
+}
+
+/**
+ * Take a booking's points from the guest's balance, as a HOLD while the
+ * booking awaits payment or straight away as a REDEEM. Conditional on the
+ * balance, so the same points can't go towards two bookings; returns false
+ * if there aren't enough.
+ */
+export async function takePoints(
+  tx: Tx,
+  booking: { id: string; userId: string; pointsRedeemed: number },
+  type: Extract<LoyaltyActionType, 'HOLD' | 'REDEEM'>
+): Promise<boolean> {
+  const { count } = await tx.user.updateMany({
+    where: { id: booking.userId, points: { gte: booking.pointsRedeemed } },
+    data: { points: { decrement: booking.pointsRedeemed } }
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  const lotUsage = await consumeLots(tx, booking.userId, booking.pointsRedeemed);
+
+  await tx.loyaltyLedger.create({
+    data: {
+      userId: booking.userId,
+      points: -booking.pointsRedeemed,
+      type,
+      ref: booking.id,
+      lotUsage: lotUsage as unknown as Prisma.InputJsonArray
+    }
+  });
+
+  return true;
+}
+
+/**
+ * The booking was paid, so its held points are spent
+ */
+export async function redeemHeldPoints(tx: Tx, booking: { id: string; userId: string }): Promise<void> {
+  await tx.loyaltyLedger.updateMany({
+    where: { userId: booking.userId, ref: booking.id, type: 'HOLD' },
+    data: { type: 'REDEEM' }
+  });
+}
+
+/**
+ * Give an unpaid booking's held points back to the guest, with a RELEASE
+ * that references the hold, into the lots they were taken from
+ */
+export async function releaseHeldPoints(
+  tx: Tx,
+  booking: { id: string; userId: string; pointsRedeemed: number }
+): Promise<void> {
+  const hold = await tx.loyaltyLedger.findFirst({
+    where: { userId: booking.userId, ref: booking.id, type: 'HOLD' }
+  });
+  if (hold) {
+    await tx.loyaltyLedger.update({
+      where: { id: hold.id },
+      data: { reversedPoints: booking.pointsRedeemed }
+    });
+  }
+
+  await tx.loyaltyLedger.create({
+    data: {
+      userId: booking.userId,
+      points: booking.pointsRedeemed,
+      type: 'RELEASE',
+      ref: booking.id,
+      reversalOf: hold?.id ?? null
+    }
+  });
+
+  await tx.user.update({
+    where: { id: booking.userId },
+    data: { points: { increment: booking.pointsRedeemed } }
+  });
+
+  const unrestored = await restoreLots(tx, hold ? lotUsageOf(hold) : [], booking.pointsRedeemed);
+  if (unrestored > 0) {
+    await addLot(tx, booking.userId, unrestored, hold?.id ?? null);
+  }
+}
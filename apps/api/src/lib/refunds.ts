@@ -0,0 +1,194 @@
+import { Payment, Refund, RefundReason, RefundStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { paymentProvider } from './gateway';
+import { reverseBookingPoints } from './pointsReversal';
+
+/**
+ * Map a gateway refund status onto ours. Refunds are reported as pending
+ * until the bank confirms them.
+ */
+export function toRefundStatus(gatewayStatus: string): RefundStatus {
+  if (gatewayStatus === 'processed') {
+    return 'PROCESSED';
+  }
+  if (gatewayStatus === 'failed') {
+    return 'FAILED';
+  }
+  return 'PENDING';
+}
+
+/**
+ * Record a refund and request it from the gateway. The record is created
+ * first so a refund that the gateway rejects, or that has no payment to go
+ * back to, is still visible as FAILED for staff to settle by hand.
+ */
+async function issueRefund(params: {
+  bookingId: string;
+  revisionId?: string | undefined;
+  payment: Payment | null;
+  amountPaise: number;
+  reason: RefundReason;
+}): Promise<Refund> {
+  const refund = await prisma.refund.create({
+    data: {
+      bookingId: params.bookingId,
+      revisionId: params.revisionId ?? null,
+      paymentId: params.payment?.id ?? null,
+      reason: params.reason,
+      amountPaise: params.amountPaise,
+      razorpayPaymentId: params.payment?.razorpayPaymentId ?? null
+    }
+  });
+
+  return requestRefund(refund, params.payment);
+}
+
+/**
+ * Ask the gateway for a refund already on record
+ */
+async function requestRefund(refund: Refund, payment: Payment | null): Promise<Refund> {
+  if (!payment?.razorpayPaymentId) {
+    console.warn(`⚠️  No captured payment left on booking ${refund.bookingId} - refund of ₹${refund.amountPaise / 100} must be made manually`);
+    return prisma.refund.update({
+      where: { id: refund.id },
+      data: { status: 'FAILED', failureReason: 'No captured payment left to refund' }
+    });
+  }
+
+  try {
+    const gatewayRefund = await paymentProvider.refundPayment(payment.razorpayPaymentId, refund.amountPaise, {
+      bookingId: refund.bookingId,
+      refundId: refund.id
+    });
+    const status = toRefundStatus(gatewayRefund.status);
+
+    return await prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        razorpayRefundId: gatewayRefund.id,
+        status,
+        processedAt: status === 'PROCESSED' ? new Date() : null
+      }
+    });
+  } catch (error) {
+    console.error(`❌ Refund ${refund.id} for booking ${refund.bookingId} failed:`, error);
+    return prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        status: 'FAILED',
+        failureReason: error instanceof Error ? error.message : 'Failed to create refund'
+      }
+    });
+  }
+}
+
+/**
+ * Refund a payment captured for a booking that could not be confirmed,
+ * e.g. it expired and its rooms were taken before the payment arrived.
+ * Whatever of the payment hasn't been refunded yet is recorded under a
+ * lock on the payment, so the webhook and the checkout verification can
+ * both call this and it is refunded once. Returns null if there was
+ * nothing left to refund.
+ */
+export async function refundUnconfirmedPayment(bookingId: string, razorpayPaymentId: string): Promise<Refund | null> {
+  const claimed = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`
+      SELECT "id"
+      FROM "payments"
+      WHERE "razorpayPaymentId" = ${razorpayPaymentId}
+      FOR UPDATE
+    `;
+
+    const payment = await tx.payment.findUnique({
+      where: { razorpayPaymentId },
+      include: { refunds: { where: { status: { not: 'FAILED' } } } }
+    });
+    if (!payment || payment.status !== 'CAPTURED') {
+      return null;
+    }
+
+    const { refunds: previous, ...captured } = payment;
+    const amountPaise = captured.amountPaise - previous.reduce((total, refund) => total + refund.amountPaise, 0);
+    if (amountPaise <= 0) {
+      return null;
+    }
+
+    const refund = await tx.refund.create({
+      data: {
+        bookingId,
+        paymentId: captured.id,
+        reason: 'NOT_CONFIRMED',
+        amountPaise,
+        razorpayPaymentId
+      }
+    });
+
+    return { refund, payment: captured };
+  });
+
+  if (!claimed) {
+    return null;
+  }
+
+  return requestRefund(claimed.refund, claimed.payment);
+}
+
+/**
+ * Refund an amount from a booking's captured payments, newest first, so a
+ * refund larger than any one payment (e.g. after a paid top-up) is split
+ * across them. Only online payments go back through the gateway; whatever
+ * can't be matched to one, such as cash taken at the property, is recorded
+ * as a FAILED refund for manual settlement. The refunded share of any
+ * points the booking earned is reversed.
+ */
+export async function refundBooking(params: {
+  bookingId: string;
+  revisionId?: string;
+  amountPaise: number;
+  reason: RefundReason;
+}): Promise<Refund[]> {
+  const payments = await prisma.payment.findMany({
+    where: { bookingId: params.bookingId, status: 'CAPTURED', razorpayPaymentId: { not: null } },
+    include: { refunds: { where: { status: { not: 'FAILED' } } } },
+    orderBy: { capturedAt: 'desc' }
+  });
+
+  const refunds: Refund[] = [];
+  let remaining = params.amountPaise;
+
+  for (const { refunds: previous, ...payment } of payments) {
+    const refundable = payment.amountPaise - previous.reduce((total, refund) => total + refund.amountPaise, 0);
+    const amountPaise = Math.min(refundable, remaining);
+    if (amountPaise > 0) {
+      refunds.push(await issueRefund({ ...params, payment, amountPaise }));
+      remaining -= amountPaise;
+    }
+  }
+
+  if (remaining > 0) {
+    refunds.push(await issueRefund({ ...params, payment: null, amountPaise: remaining }));
+  }
+
+  await reverseRefundedPoints(params.bookingId, params.amountPaise, `Refund of ₹${params.amountPaise / 100} (${params.reason})`);
+
+  return refunds;
+}
+
+/**
+ * Take back the share of a booking's earned points that matches the share
+ * of what was paid for it that has been refunded or charged back
+ */
+export async function reverseRefundedPoints(bookingId: string, amountPaise: number, reason: string): Promise<number> {
+  const paid = await prisma.payment.aggregate({
+    where: { bookingId, status: 'CAPTURED' },
+    _sum: { amountPaise: true }
+  });
+  const paidPaise = paid._sum.amountPaise ?? 0;
+  if (paidPaise === 0) {
+    return 0;
+  }
+
+  return prisma.$transaction(tx =>
+    reverseBookingPoints(tx, bookingId, { types: ['EARN'], share: amountPaise / paidPaise, reason })
+  );
+}
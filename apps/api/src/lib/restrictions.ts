@@ -0,0 +1,30 @@
+import { evaluateStayRestrictions, RestrictionViolation } from '@podnbeyond/shared';
+import { prisma } from './prisma';
+
+/**
+ * Check every room type's restrictions for a stay.
+ * Loads the departure date as well so closed-to-departure can be applied.
+ */
+export async function checkStayRestrictions(
+  roomTypeIds: string[],
+  checkIn: Date,
+  checkOut: Date
+): Promise<Map<string, RestrictionViolation[]>> {
+  const restrictions = await prisma.stayRestriction.findMany({
+    where: {
+      roomTypeId: { in: roomTypeIds },
+      date: {
+        gte: checkIn,
+        lte: checkOut
+      }
+    }
+  });
+
+  const violations = new Map<string, RestrictionViolation[]>();
+  for (const roomTypeId of roomTypeIds) {
+    const rules = restrictions.filter(restriction => restriction.roomTypeId === roomTypeId);
+    violations.set(roomTypeId, evaluateStayRestrictions(rules, checkIn, checkOut));
+  }
+
+  return violations;
+}
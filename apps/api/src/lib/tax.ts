@@ -0,0 +1,37 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { DEFAULT_TAX_CONFIG, TaxConfig } from '@podnbeyond/shared';
+import { env } from './env';
+
+const taxSlabSchema = z.object({
+  minTariff: z.number().int().min(0),
+  maxTariff: z.number().int().min(0).nullable(),
+  ratePct: z.number().min(0).max(100),
+});
+
+const taxConfigSchema = z.object({
+  rules: z.array(z.object({
+    category: z.enum(['ACCOMMODATION', 'SERVICE_CHARGE']),
+    hsnSac: z.string().min(1),
+    effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    effectiveTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+    slabs: z.array(taxSlabSchema).min(1),
+  })).min(1),
+  rounding: z.object({
+    mode: z.enum(['HALF_UP', 'UP', 'DOWN']),
+    unit: z.number().int().min(1),
+  }),
+});
+
+/**
+ * Load GST rules from TAX_CONFIG_PATH, falling back to the built-in slabs
+ */
+function loadTaxConfig(): TaxConfig {
+  if (!env.TAX_CONFIG_PATH) {
+    return DEFAULT_TAX_CONFIG;
+  }
+
+  return taxConfigSchema.parse(JSON.parse(readFileSync(env.TAX_CONFIG_PATH, 'utf8')));
+}
+
+export const taxConfig = loadTaxConfig();
@@ -0,0 +1,326 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { Prisma, WebhookEvent } from '@prisma/client';
+import { prisma } from './prisma';
+import { GatewayPayment } from '../payments/PaymentProvider';
+import { paymentProvider } from './gateway';
+import { recordPaymentAttempt, confirmBookingPayment } from './payments';
+import { toRefundStatus, reverseRefundedPoints, refundUnconfirmedPayment } from './refunds';
+
+const PROVIDER = 'razorpay';
+
+// An event still PROCESSING after this is assumed to have died with its process
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Bodies with a bad signature come from anyone, so only this much is kept.
+// Genuine events are a few KB, so a misconfigured secret can still be replayed.
+const MAX_REJECTED_BODY_LENGTH = 16 * 1024;
+
+export type WebhookOutcome = 'PROCESSED' | 'IGNORED' | 'DUPLICATE' | 'FAILED' | 'REJECTED';
+
+// Entities keep any fields not listed here, so payloads are stored whole
+const paymentEntitySchema = z.object({
+  id: z.string(),
+  order_id: z.string(),
+  amount: z.number().int(),
+  status: z.string(),
+  error_description: z.string().nullable().default(null),
+}).passthrough();
+
+const refundEntitySchema = z.object({
+  id: z.string(),
+  payment_id: z.string(),
+  amount: z.number().int(),
+  status: z.string(),
+}).passthrough();
+
+const disputeEntitySchema = z.object({
+  id: z.string(),
+  payment_id: z.string(),
+  amount: z.number().int(),
+  status: z.string(),
+}).passthrough();
+
+/**
+ * The Razorpay events we act on, by event type
+ */
+const razorpayEventSchema = z.discriminatedUnion('event', [
+  z.object({
+    event: z.enum(['payment.captured', 'order.paid', 'payment.failed']),
+    payload: z.object({ payment: z.object({ entity: paymentEntitySchema }) })
+  }),
+  z.object({
+    event: z.enum(['refund.processed', 'refund.failed']),
+    payload: z.object({ refund: z.object({ entity: refundEntitySchema }) })
+  }),
+  z.object({
+    event: z.literal('payment.dispute.lost'),
+    payload: z.object({ dispute: z.object({ entity: disputeEntitySchema }) })
+  })
+]);
+
+const webhookEnvelopeSchema = z.object({ event: z.string() });
+
+/**
+ * Confirm the booking or top-up a captured payment belongs to
+ */
+async function applyCapturedPayment(payment: GatewayPayment): Promise<void> {
+  // Ledger first, so the capture is on record whatever happens to the booking
+  await recordPaymentAttempt(payment, 'CAPTURED');
+
+  const booking = await prisma.booking.findFirst({
+    where: { razorpayOrderId: payment.order_id }
+  });
+
+  if (!booking) {
+    // Top-up payment for a booking modification
+    const revision = await prisma.bookingRevision.findFirst({
+      where: { razorpayOrderId: payment.order_id }
+    });
+
+    if (!revision) {
+      throw new Error(`Booking not found for Razorpay order: ${payment.order_id}`);
+    }
+
+    if (revision.topUpPaid) {
+      return;
+    }
+
+    // Too late: the difference is collected at the property instead
+    if (revision.topUpExpiresAt && revision.topUpExpiresAt <= new Date()) {
+      const refund = await refundUnconfirmedPayment(revision.bookingId, payment.id);
+      console.warn(`⚠️  Top-up payment ${payment.id} for booking ${revision.bookingId} revision ${revision.id} arrived after it expired - refund ${refund ? `${refund.id} ${refund.status}` : 'already recorded'}`);
+      return;
+    }
+
+    await prisma.bookingRevision.update({
+      where: { id: revision.id },
+      data: { topUpPaid: true }
+    });
+    console.log(`✅ Top-up for booking ${revision.bookingId} revision ${revision.id} paid`);
+    return;
+  }
+
+  const confirmation = await confirmBookingPayment(booking.id, payment.id);
+
+  // The booking can't be honoured, so the guest gets the money back
+  if (confirmation === 'NO_INVENTORY' || confirmation === 'NOT_PAYABLE') {
+    const refund = await refundUnconfirmedPayment(booking.id, payment.id);
+    console.warn(`⚠️  Payment ${payment.id} captured for booking ${booking.id} that can no longer be confirmed (${confirmation}) - refund ${refund ? `${refund.id} ${refund.status}` : 'already recorded'}`);
+  }
+}
+
+/**
+ * Act on a verified Razorpay event. Returns false for event types we don't
+ * handle; throws to have the event marked FAILED, including when a handled
+ * event isn't shaped as expected.
+ */
+async function applyRazorpayEvent(body: unknown): Promise<boolean> {
+  const { event: eventType } = webhookEnvelopeSchema.parse(body);
+  if (!razorpayEventSchema.optionsMap.has(eventType)) {
+    return false;
+  }
+
+  const event = razorpayEventSchema.parse(body);
+
+  switch (event.event) {
+    case 'payment.captured':
+    case 'order.paid': {
+      // order.paid carries the payment that completed the order
+      await applyCapturedPayment(event.payload.payment.entity);
+      return true;
+    }
+
+    case 'payment.failed': {
+      const payment = event.payload.payment.entity;
+
+      // The booking keeps its hold so the guest can retry until it expires
+      const recorded = await recordPaymentAttempt(payment, 'FAILED');
+      if (recorded) {
+        console.log(`❌ Payment ${payment.id} for booking ${recorded.bookingId} failed: ${recorded.failureReason}`);
+      }
+      return true;
+    }
+
+    case 'refund.processed':
+    case 'refund.failed': {
+      const razorpayRefund = event.payload.refund.entity;
+      const status = toRefundStatus(razorpayRefund.status);
+
+      const { count } = await prisma.refund.updateMany({
+        where: { razorpayRefundId: razorpayRefund.id },
+        data: {
+          status,
+          failureReason: event.event === 'refund.failed' ? 'Refund failed at Razorpay' : null,
+          payload: razorpayRefund as unknown as Prisma.InputJsonObject,
+          processedAt: status === 'PROCESSED' ? new Date() : null
+        }
+      });
+
+      if (count === 0) {
+        console.warn(`⚠️  No refund recorded for Razorpay refund ${razorpayRefund.id}`);
+      } else {
+        console.log(`💸 Refund ${razorpayRefund.id} is now ${razorpayRefund.status}`);
+      }
+      return true;
+    }
+
+    case 'payment.dispute.lost': {
+      // A chargeback: the guest has the money back, so the points it earned go
+      const dispute = event.payload.dispute.entity;
+
+      const payment = await prisma.payment.findUnique({
+        where: { razorpayPaymentId: dispute.payment_id }
+      });
+      if (!payment) {
+        console.warn(`⚠️  No payment recorded for disputed Razorpay payment ${dispute.payment_id}`);
+        return true;
+      }
+
+      const reversed = await reverseRefundedPoints(payment.bookingId, dispute.amount, `Chargeback ${dispute.id}`);
+      console.log(`⚖️  Dispute ${dispute.id} lost on booking ${payment.bookingId}; ${-reversed} loyalty points reversed`);
+      return true;
+    }
+  }
+}
+
+/**
+ * Whether an event was left PROCESSING by a delivery that never finished,
+ * e.g. because the process crashed
+ */
+export function isStalled(event: WebhookEvent, now: Date = new Date()): boolean {
+  return event.status === 'PROCESSING' && event.updatedAt.getTime() < now.getTime() - PROCESSING_TIMEOUT_MS;
+}
+
+/**
+ * Process a stored event unless it has already been processed or another
+ * delivery of it is being processed right now. An event stalled in
+ * PROCESSING is taken over.
+ */
+async function processWebhookEvent(event: WebhookEvent): Promise<WebhookOutcome> {
+  const now = new Date();
+  const { count } = await prisma.webhookEvent.updateMany({
+    where: {
+      id: event.id,
+      OR: [
+        { status: { in: ['RECEIVED', 'FAILED'] } },
+        { status: 'PROCESSING', updatedAt: { lt: new Date(now.getTime() - PROCESSING_TIMEOUT_MS) } }
+      ]
+    },
+    data: { status: 'PROCESSING', attempts: { increment: 1 } }
+  });
+
+  if (count === 0) {
+    return 'DUPLICATE';
+  }
+
+  try {
+    const applied = await applyRazorpayEvent(JSON.parse(event.rawBody));
+
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: { status: applied ? 'PROCESSED' : 'IGNORED', processedAt: new Date(), lastError: null }
+    });
+
+    return applied ? 'PROCESSED' : 'IGNORED';
+  } catch (error) {
+    console.error(`❌ Webhook event ${event.eventId} (${event.eventType}) failed:`, error);
+
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: { status: 'FAILED', lastError: error instanceof Error ? error.message : String(error) }
+    });
+
+    return 'FAILED';
+  }
+}
+
+/**
+ * Store an inbound Razorpay webhook exactly as received, then process it
+ * once. The signature is checked against the raw body, not a re-serialised
+ * one. Events without an ID header are keyed by a hash of their body.
+ * Events with a bad signature are stored as REJECTED, with no more of the
+ * body than a genuine event would have, but never processed.
+ */
+export async function receiveRazorpayWebhook(
+  rawBody: string,
+  signature: string | undefined,
+  headerEventId: string | undefined
+): Promise<WebhookOutcome> {
+  const eventId = headerEventId || crypto.createHash('sha256').update(rawBody).digest('hex');
+  const signatureValid = paymentProvider.verifyWebhookSignature(rawBody, signature ?? '');
+
+  let eventType = 'unknown';
+  try {
+    eventType = JSON.parse(rawBody).event ?? eventType;
+  } catch {
+    // Stored as is; processing will fail and show up in the admin list
+  }
+
+  const existing = await prisma.webhookEvent.findUnique({
+    where: { provider_eventId: { provider: PROVIDER, eventId } }
+  });
+
+  if (!signatureValid) {
+    if (!existing) {
+      await prisma.webhookEvent.create({
+        data: {
+          provider: PROVIDER,
+          eventId,
+          eventType: eventType.slice(0, 100),
+          rawBody: rawBody.slice(0, MAX_REJECTED_BODY_LENGTH),
+          signature: signature?.slice(0, 100) ?? null,
+          signatureValid,
+          status: 'REJECTED'
+        }
+      });
+    }
+    return 'REJECTED';
+  }
+
+  let event: WebhookEvent;
+  try {
+    if (!existing) {
+      event = await prisma.webhookEvent.create({
+        data: { provider: PROVIDER, eventId, eventType, rawBody, signature: signature ?? null, signatureValid }
+      });
+    } else if (!existing.signatureValid) {
+      // A genuine delivery of an event first seen with a bad signature
+      event = await prisma.webhookEvent.update({
+        where: { id: existing.id },
+        data: { eventType, rawBody, signature: signature ?? null, signatureValid, status: 'RECEIVED' }
+      });
+    } else {
+      event = existing;
+    }
+  } catch (error) {
+    // Another delivery of the same event was stored first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return 'DUPLICATE';
+    }
+    throw error;
+  }
+
+  return processWebhookEvent(event);
+}
+
+/**
+ * Process a failed or stalled event again. A rejected event is re-checked
+ * against the current webhook secret first, e.g. after fixing a
+ * misconfigured secret.
+ */
+export async function replayWebhookEvent(event: WebhookEvent): Promise<WebhookOutcome> {
+  if (event.status === 'REJECTED') {
+    if (!paymentProvider.verifyWebhookSignature(event.rawBody, event.signature ?? '')) {
+      return 'REJECTED';
+    }
+
+    event = await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: { signatureValid: true, status: 'RECEIVED' }
+    });
+  }
+
+  console.log(`🔁 Replaying webhook event ${event.eventId} (${event.eventType})`);
+  return processWebhookEvent(event);
+}
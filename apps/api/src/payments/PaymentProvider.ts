@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+
+/**
+ * Payment Provider Interface
+ * Defines the contract for payment gateways. Providers speak Razorpay's
+ * wire format (orders, checkout signatures and webhook events), so the
+ * booking flow and webhook handling are the same whichever one is used.
+ */
+
+export interface GatewayOrder {
+  id: string;
+  amount: number; // Amount in paise
+  currency: string;
+  receipt: string;
+  status: string;
+}
+
+export interface GatewayPayment {
+  id: string;
+  order_id: string;
+  amount: number; // Amount in paise
+  status: string;
+  error_description?: string | null;
+  created_at?: number; // Unix timestamp
+}
+
+export interface GatewayRefund {
+  id: string;
+  payment_id: string;
+  amount: number; // Amount in paise
+  status: string; // 'pending' until the bank confirms, then 'processed' or 'failed'
+  created_at?: number; // Unix timestamp
+}
+
+export interface GatewayDispute {
+  id: string;
+  payment_id: string;
+  amount: number; // Disputed amount in paise
+  status: string; // 'open', 'under_review', 'won', 'lost', 'closed'
+  reason_code?: string | null;
+}
+
+export interface GatewaySettlementItem {
+  entity_id: string; // Payment or refund ID
+  type: string; // 'payment', 'refund', ...
+  payment_id?: string | null; // Payment a refund belongs to
+  order_id?: string | null;
+  amount: number; // Amount in paise
+  fee: number; // Gateway fee in paise
+  tax: number; // GST on the fee in paise
+  settled: boolean;
+  settlement_id: string | null;
+  settled_at: number | null; // Unix timestamp
+}
+
+/**
+ * Base interface that all payment providers must implement
+ */
+export interface PaymentProvider {
+  /** Provider name (e.g., 'razorpay', 'simulator') */
+  name: string;
+
+  /** Create an order for the guest to pay at checkout */
+  createOrder(amountPaise: number, receipt: string): Promise<GatewayOrder>;
+
+  /** Refund part or all of a captured payment */
+  refundPayment(paymentId: string, amountPaise: number, notes?: Record<string, string>): Promise<GatewayRefund>;
+
+  /** Check the signature the checkout hands back after a payment */
+  verifyPaymentSignature(orderId: string, paymentId: string, signature: string): boolean;
+
+  /** Check a webhook's signature against its raw body */
+  verifyWebhookSignature(payload: string, signature: string): boolean;
+
+  /** Public key the checkout is opened with */
+  getKeyId(): string;
+
+  /** Payments created between two times, for reconciliation */
+  listPayments(from: Date, to: Date): Promise<GatewayPayment[]>;
+
+  /** Transactions settled on a day (YYYY-MM-DD), for reconciliation */
+  listSettlements(date: string): Promise<GatewaySettlementItem[]>;
+}
+
+/**
+ * Abstract base class with common functionality
+ */
+export abstract class BasePaymentProvider implements PaymentProvider {
+  abstract name: string;
+
+  protected keySecret: string;
+  protected webhookSecret: string;
+
+  constructor(config: { keySecret: string; webhookSecret: string }) {
+    this.keySecret = config.keySecret;
+    this.webhookSecret = config.webhookSecret;
+  }
+
+  abstract createOrder(amountPaise: number, receipt: string): Promise<GatewayOrder>;
+  abstract refundPayment(paymentId: string, amountPaise: number, notes?: Record<string, string>): Promise<GatewayRefund>;
+  abstract getKeyId(): string;
+  abstract listPayments(from: Date, to: Date): Promise<GatewayPayment[]>;
+  abstract listSettlements(date: string): Promise<GatewaySettlementItem[]>;
+
+  verifyPaymentSignature(orderId: string, paymentId: string, signature: string): boolean {
+    if (!this.keySecret) {
+      console.warn(`⚠️  ${this.name} key secret not configured - skipping verification`);
+      return true; // Allow in development
+    }
+
+    return this.signatureMatches(this.sign(this.keySecret, `${orderId}|${paymentId}`), signature);
+  }
+
+  verifyWebhookSignature(payload: string, signature: string): boolean {
+    if (!this.webhookSecret) {
+      console.warn(`⚠️  ${this.name} webhook secret not configured - skipping verification`);
+      return true; // Allow in development
+    }
+
+    const isValid = this.signatureMatches(this.sign(this.webhookSecret, payload), signature);
+
+    if (isValid) {
+      console.log(`✅ ${this.name} webhook signature verified`);
+    } else {
+      console.error(`❌ Invalid ${this.name} webhook signature`);
+    }
+
+    return isValid;
+  }
+
+  /**
+   * HMAC-SHA256 hex digest, as Razorpay signs checkouts and webhooks
+   */
+  protected sign(secret: string, payload: string): string {
+    return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+  }
+
+  /**
+   * Constant-time comparison of hex signatures
+   */
+  protected signatureMatches(expected: string, signature: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(signature);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  /**
+   * Log gateway operation for audit trail
+   */
+  protected logOperation(operation: string, data: any, success: boolean, error?: string) {
+    console.log(`[${this.name}] ${operation}:`, {
+      success,
+      data,
+      error,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import { env } from '../../lib/env';
+import {
+  BasePaymentProvider,
+  GatewayOrder,
+  GatewayPayment,
+  GatewayRefund,
+  GatewaySettlementItem
+} from '../PaymentProvider';
+
+const WEBHOOK_DELAY_MS = 1000;
+const FEE_PCT = 2; // Gateway fee on settled payments
+const GST_ON_FEE_PCT = 18;
+const IST_OFFSET_SECONDS = 5.5 * 60 * 60; // Settlement days are Indian business days
+
+export interface SimulatedCheckout {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+}
+
+/**
+ * Local Payment Simulator
+ * Stands in for Razorpay offline: creates orders, "pays" them on request
+ * and sends signed webhooks back to the API the way Razorpay would, so the
+ * whole booking-to-payment flow runs end to end without a gateway. State is
+ * kept in memory and lost on restart.
+ */
+export class SimulatorProvider extends BasePaymentProvider {
+  name = 'simulator';
+
+  private webhookUrl: string;
+  private orders = new Map<string, GatewayOrder>();
+  private payments = new Map<string, GatewayPayment>();
+  private refunds = new Map<string, GatewayRefund>();
+
+  constructor(config: { keySecret: string; webhookSecret: string; webhookUrl: string }) {
+    super(config);
+    this.webhookUrl = config.webhookUrl;
+  }
+
+  async createOrder(amountPaise: number, receipt: string): Promise<GatewayOrder> {
+    const order = {
+      id: this.generateId('order'),
+      amount: amountPaise,
+      currency: 'INR',
+      receipt,
+      status: 'created'
+    };
+    this.orders.set(order.id, order);
+
+    console.log(`🧪 Simulated order created: ${order.id} for ₹${amountPaise / 100}`);
+    return order;
+  }
+
+  /**
+   * Refunds start pending and are processed shortly after, with a webhook,
+   * like real ones
+   */
+  async refundPayment(paymentId: string, amountPaise: number): Promise<GatewayRefund> {
+    const payment = this.payments.get(paymentId);
+    if (payment) {
+      const refunded = Array.from(this.refunds.values())
+        .filter(refund => refund.payment_id === paymentId)
+        .reduce((total, refund) => total + refund.amount, 0);
+
+      if (payment.status !== 'captured' || refunded + amountPaise > payment.amount) {
+        this.logOperation('refundPayment', { paymentId, amountPaise }, false, 'Refund exceeds captured amount');
+        throw new Error('Failed to create refund');
+      }
+    }
+
+    const refund = {
+      id: this.generateId('rfnd'),
+      payment_id: paymentId,
+      amount: amountPaise,
+      status: 'pending',
+      created_at: Math.floor(Date.now() / 1000)
+    };
+    this.refunds.set(refund.id, refund);
+
+    this.deliverLater(() => {
+      refund.status = 'processed';
+      return { event: 'refund.processed', payload: { refund: { entity: refund } } };
+    });
+
+    console.log(`🧪 Simulated refund created: ${refund.id} for ₹${amountPaise / 100}`);
+    return { ...refund };
+  }
+
+  getKeyId(): string {
+    return 'rzp_test_simulator';
+  }
+
+  async listPayments(from: Date, to: Date): Promise<GatewayPayment[]> {
+    return Array.from(this.payments.values()).filter(payment => {
+      const createdAt = (payment.created_at ?? 0) * 1000;
+      return createdAt >= from.getTime() && createdAt < to.getTime();
+    });
+  }
+
+  /**
+   * Captures and refunds settle the day they happen, less the fee and GST
+   * on it for payments
+   */
+  async listSettlements(date: string): Promise<GatewaySettlementItem[]> {
+    const settledOn = (createdAt = 0) =>
+      new Date((createdAt + IST_OFFSET_SECONDS) * 1000).toISOString().split('T')[0] === date;
+
+    const payments = Array.from(this.payments.values())
+      .filter(payment => payment.status === 'captured' && settledOn(payment.created_at))
+      .map(payment => {
+        const fee = Math.round(payment.amount * FEE_PCT / 100);
+        return {
+          entity_id: payment.id,
+          type: 'payment',
+          order_id: payment.order_id,
+          amount: payment.amount,
+          fee,
+          tax: Math.round(fee * GST_ON_FEE_PCT / 100),
+          settled: true,
+          settlement_id: `setl_sim_${date.replace(/-/g, '')}`,
+          settled_at: payment.created_at ?? null
+        };
+      });
+
+    const refunds = Array.from(this.refunds.values())
+      .filter(refund => refund.status === 'processed' && settledOn(refund.created_at))
+      .map(refund => ({
+        entity_id: refund.id,
+        type: 'refund',
+        payment_id: refund.payment_id,
+        amount: refund.amount,
+        fee: 0,
+        tax: 0,
+        settled: true,
+        settlement_id: `setl_sim_${date.replace(/-/g, '')}`,
+        settled_at: refund.created_at ?? null
+      }));
+
+    return [...payments, ...refunds];
+  }
+
+  /**
+   * Pay an order as the guest would at checkout. A successful payment
+   * returns what Razorpay's checkout hands back, and is followed by the
+   * payment.captured and order.paid webhooks; a failed one by payment.failed.
+   */
+  async simulatePayment(orderId: string, outcome: 'success' | 'failure'): Promise<SimulatedCheckout | null> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Unknown simulated order: ${orderId}`);
+    }
+
+    const payment: GatewayPayment = {
+      id: this.generateId('pay'),
+      order_id: order.id,
+      amount: order.amount,
+      status: outcome === 'success' ? 'captured' : 'failed',
+      error_description: outcome === 'success' ? null : 'Payment declined by the simulator',
+      created_at: Math.floor(Date.now() / 1000)
+    };
+    this.payments.set(payment.id, payment);
+    this.logOperation('simulatePayment', { orderId, paymentId: payment.id }, outcome === 'success');
+
+    if (outcome === 'failure') {
+      this.deliverLater(() => ({ event: 'payment.failed', payload: { payment: { entity: payment } } }));
+      return null;
+    }
+
+    order.status = 'paid';
+    this.deliverLater(() => ({ event: 'payment.captured', payload: { payment: { entity: payment } } }));
+    this.deliverLater(() => ({
+      event: 'order.paid',
+      payload: { payment: { entity: payment }, order: { entity: order } }
+    }));
+
+    return {
+      razorpay_order_id: order.id,
+      razorpay_payment_id: payment.id,
+      razorpay_signature: this.sign(this.keySecret, `${order.id}|${payment.id}`)
+    };
+  }
+
+  /**
+   * Send a signed webhook to the API after a short delay. Failed deliveries
+   * are logged, not retried.
+   */
+  private deliverLater(buildEvent: () => { event: string; payload: object }) {
+    setTimeout(async () => {
+      const { event, payload } = buildEvent();
+      const body = JSON.stringify({
+        entity: 'event',
+        event,
+        payload,
+        created_at: Math.floor(Date.now() / 1000)
+      });
+
+      try {
+        const response = await fetch(this.webhookUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Razorpay-Signature': this.sign(this.webhookSecret, body),
+            'X-Razorpay-Event-Id': this.generateId('evt')
+          },
+          body
+        });
+        this.logOperation('deliverWebhook', { event, status: response.status }, response.ok);
+      } catch (error) {
+        this.logOperation('deliverWebhook', { event }, false, (error as Error).message);
+      }
+    }, WEBHOOK_DELAY_MS).unref();
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}_sim_${crypto.randomBytes(7).toString('hex')}`;
+  }
+}
+
+/**
+ * Factory function to create the simulator. It signs with the Razorpay
+ * secrets when they are set, so webhooks verify either way.
+ */
+export function createSimulatorProvider(): SimulatorProvider {
+  return new SimulatorProvider({
+    keySecret: env.RAZORPAY_KEY_SECRET || 'simulator_key_secret',
+    webhookSecret: env.RAZORPAY_WEBHOOK_SECRET || 'simulator_webhook_secret',
+    webhookUrl: env.PAYMENT_SIMULATOR_WEBHOOK_URL || `${env.API_URL}/v1/webhooks/razorpay`
+  });
+}
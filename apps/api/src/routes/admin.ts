@@ -1,7 +1,13 @@
 import { Router } from 'express';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { expandDateRange } from '@podnbeyond/shared';
 import { prisma } from '../lib/prisma';
 import { requireAuth, requireRole } from '../lib/auth';
+import { idempotent } from '../lib/idempotency';
+import { bookingBalance, recordPropertyPayment } from '../lib/payments';
+import { isStalled, replayWebhookEvent } from '../lib/webhooks';
+import { reconcileDay, reconciliationCsv } from '../lib/reconciliation';
 
 const router = Router();
 
@@ -24,12 +30,133 @@ const updateInventorySchema = z.object({
   allotment: z.number().min(0),
 });
 
+const bulkRateSchema = z.object({
+  roomTypeId: z.string().min(1),
+  ratePlanId: z.string().min(1),
+  startDate: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid start date'),
+  endDate: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid end date'),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(), // 0 = Sunday
+  rate: z.number().int().min(0).nullable(), // null clears the override
+});
+
+const bulkRestrictionSchema = z.object({
+  roomTypeId: z.string().min(1),
+  startDate: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid start date'),
+  endDate: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid end date'),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(), // 0 = Sunday
+  minLos: z.number().int().min(1).nullable().optional(),
+  maxLos: z.number().int().min(1).nullable().optional(),
+  closedToArrival: z.boolean().optional(),
+  closedToDeparture: z.boolean().optional(),
+  stopSell: z.boolean().optional(),
+  clear: z.boolean().default(false), // Remove all restrictions for the dates
+});
+
 const createRatePlanSchema = z.object({
   name: z.string().min(1).max(100),
   refundable: z.boolean().default(true),
   discountPct: z.number().min(0).max(100).optional(),
+  paymentMode: z.enum(['FULL', 'DEPOSIT', 'PAY_AT_PROPERTY']).default('FULL'),
+  depositPct: z.number().int().min(1).max(99).nullable().optional(), // Required for DEPOSIT plans
+  noShowPolicy: z.enum(['NONE', 'FIRST_NIGHT', 'FULL_STAY']).default('FIRST_NIGHT'),
+  active: z.boolean().default(true),
+});
+
+const promoDate = z.string()
+  .refine((date) => !isNaN(Date.parse(date)), 'Invalid date')
+  .transform((date) => new Date(date));
+
+const createPromoCodeSchema = z.object({
+  code: z.string().min(3).max(50).regex(/^[A-Za-z0-9_-]+$/, 'Code may only contain letters, numbers, - and _')
+    .transform((code) => code.toUpperCase()),
+  description: z.string().max(200).nullable().optional(),
+  discountType: z.enum(['PERCENT', 'FLAT']),
+  discountValue: z.number().int().min(1), // Percentage or paise
+  validFrom: promoDate.nullable().optional(),
+  validTo: promoDate.nullable().optional(),
+  stayFrom: promoDate.nullable().optional(),
+  stayTo: promoDate.nullable().optional(),
+  minNights: z.number().int().min(1).nullable().optional(),
+  roomTypeIds: z.array(z.string().min(1)).default([]),
+  maxRedemptions: z.number().int().min(1).nullable().optional(),
+  maxPerUser: z.number().int().min(1).nullable().optional(),
+  active: z.boolean().default(true),
+});
+
+const loyaltyTierSchema = z.object({
+  code: z.string().min(2).max(30).regex(/^[A-Z0-9_]+$/, 'Code may only contain capital letters, numbers and _'),
+  name: z.string().min(1).max(50),
+  rank: z.number().int().min(0), // Higher is better; the lowest rank is where members start
+  minPoints: z.number().int().min(0).nullable().default(null),
+  minNights: z.number().int().min(0).nullable().default(null),
+  minSpendPaise: z.number().int().min(0).nullable().default(null),
+  graceDays: z.number().int().min(0).max(730).default(90),
+  multiplier: z.number().min(0).max(10).default(1),
+  perks: z.array(z.string().min(1).max(100)).default([]),
+});
+
+const earnRuleSchema = z.object({
+  name: z.string().min(1).max(100),
+  kind: z.enum(['BASE', 'ROOM_TYPE', 'RATE_PLAN', 'CAMPAIGN']),
+  pointsPer100: z.number().min(0).max(100).nullable().default(null), // BASE only
+  multiplier: z.number().min(1).max(10).nullable().default(null),
+  bonusPoints: z.number().int().min(0).nullable().default(null),
+  roomTypeIds: z.array(z.string().min(1)).default([]),
+  ratePlanIds: z.array(z.string().min(1)).default([]),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).default([]), // 0 = Sunday
+  stayFrom: promoDate.nullable().default(null),
+  stayTo: promoDate.nullable().default(null),
+  active: z.boolean().default(true),
+});
+
+type EarnRuleInput = z.infer<typeof earnRuleSchema>;
+
+/**
+ * Leave out the fields a partial update didn't send, so Prisma is never
+ * handed an explicit undefined
+ */
+function sentFields<T extends object>(data: T): { [K in keyof T]?: Exclude<T[K], undefined> } {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as { [K in keyof T]?: Exclude<T[K], undefined> };
+}
+
+/**
+ * What's missing for a rule of its kind to make sense, if anything
+ */
+function earnRuleProblem(rule: EarnRuleInput): string | null {
+  if (rule.kind === 'BASE') {
+    return rule.pointsPer100 === null ? 'Base rules need pointsPer100' : null;
+  }
+  if (rule.multiplier === null && rule.bonusPoints === null) {
+    return 'Bonus rules need a multiplier or bonusPoints';
+  }
+  if (rule.kind === 'ROOM_TYPE' && rule.roomTypeIds.length === 0) {
+    return 'Room type rules need at least one room type';
+  }
+  if (rule.kind === 'RATE_PLAN' && rule.ratePlanIds.length === 0) {
+    return 'Rate plan rules need at least one rate plan';
+  }
+  if (rule.kind === 'CAMPAIGN' && (!rule.stayFrom || !rule.stayTo)) {
+    return 'Campaigns need a stayFrom and stayTo';
+  }
+  if (rule.stayFrom && rule.stayTo && rule.stayFrom > rule.stayTo) {
+    return 'stayFrom must not be after stayTo';
+  }
+  return null;
+}
+
+const collectBalanceSchema = z.object({
+  amountPaise: z.number().int().min(1),
+  method: z.enum(['CASH', 'CARD', 'UPI', 'OTHER']),
+  reference: z.string().max(100).optional(), // Receipt or card slip number
 });
 
+const reconciliationDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+  .refine((date) => !isNaN(Date.parse(date)), 'Invalid date');
+
+const webhookEventStatusSchema = z.enum(['RECEIVED', 'PROCESSING', 'PROCESSED', 'IGNORED', 'FAILED', 'REJECTED']);
+
 /**
  * GET /v1/admin/room-types
  * List all room types
@@ -266,25 +393,56 @@ router.put('/inventory/bulk', async (req, res) => {
 });
 
 /**
- * GET /v1/admin/rate-plans
- * List all rate plans
+ * GET /v1/admin/rates
+ * Get the nightly rate calendar for a date range
  */
-router.get('/rate-plans', async (req, res) => {
+router.get('/rates', async (req, res) => {
   try {
-    const ratePlans = await prisma.ratePlan.findMany({
-      orderBy: { createdAt: 'desc' }
+    const { startDate, endDate, roomTypeId, ratePlanId } = req.query;
+    
+    const where: any = {};
+    
+    if (startDate && endDate) {
+      where.date = {
+        gte: new Date(startDate as string),
+        lte: new Date(endDate as string)
+      };
+    }
+    
+    if (roomTypeId) {
+      where.roomTypeId = roomTypeId;
+    }
+
+    if (ratePlanId) {
+      where.ratePlanId = ratePlanId;
+    }
+
+    const rates = await prisma.dailyRate.findMany({
+      where,
+      include: {
+        roomType: {
+          select: { name: true, baseRate: true }
+        },
+        ratePlan: {
+          select: { name: true }
+        }
+      },
+      orderBy: [
+        { date: 'asc' },
+        { roomType: { name: 'asc' } }
+      ]
     });
 
-    res.json({ ratePlans });
+    res.json({ rates });
 
   } catch (error) {
-    console.error('Get rate plans error:', error);
+    console.error('Get rates error:', error);
     
     res.status(500).json({
       type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
       title: 'Internal Server Error',
       status: 500,
-      detail: 'Failed to get rate plans',
+      detail: 'Failed to get rates',
       instance: req.url,
       timestamp: new Date().toISOString(),
       requestId: req.id
@@ -293,28 +451,73 @@ router.get('/rate-plans', async (req, res) => {
 });
 
 /**
- * POST /v1/admin/rate-plans
- * Create a new rate plan
+ * PUT /v1/admin/rates/bulk
+ * Set or clear nightly rates across date ranges and days of the week
  */
-router.post('/rate-plans', async (req, res) => {
+router.put('/rates/bulk', async (req, res) => {
   try {
-    const data = createRatePlanSchema.parse(req.body);
+    const updates = z.array(bulkRateSchema).parse(req.body);
     
-    const ratePlan = await prisma.ratePlan.create({
-      data
-    });
+    let updated = 0;
+    let cleared = 0;
+    
+    for (const update of updates) {
+      const dates = expandDateRange(
+        new Date(update.startDate),
+        new Date(update.endDate),
+        update.daysOfWeek
+      );
 
-    res.status(201).json({ ratePlan });
+      if (update.rate === null) {
+        const result = await prisma.dailyRate.deleteMany({
+          where: {
+            roomTypeId: update.roomTypeId,
+            ratePlanId: update.ratePlanId,
+            date: { in: dates }
+          }
+        });
+        cleared += result.count;
+        continue;
+      }
+
+      for (const date of dates) {
+        await prisma.dailyRate.upsert({
+          where: {
+            roomTypeId_ratePlanId_date: {
+              roomTypeId: update.roomTypeId,
+              ratePlanId: update.ratePlanId,
+              date
+            }
+          },
+          update: {
+            rate: update.rate
+          },
+          create: {
+            roomTypeId: update.roomTypeId,
+            ratePlanId: update.ratePlanId,
+            date,
+            rate: update.rate
+          }
+        });
+        updated++;
+      }
+    }
+
+    res.json({ 
+      message: `Updated ${updated} and cleared ${cleared} nightly rates`,
+      updated,
+      cleared
+    });
 
   } catch (error) {
-    console.error('Create rate plan error:', error);
+    console.error('Bulk update rates error:', error);
     
     if (error instanceof z.ZodError) {
       return res.status(400).json({
         type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
         title: 'Bad Request',
         status: 400,
-        detail: 'Invalid rate plan data',
+        detail: 'Invalid rate data',
         errors: error.errors,
         instance: req.url,
         timestamp: new Date().toISOString(),
@@ -326,7 +529,7 @@ router.post('/rate-plans', async (req, res) => {
       type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
       title: 'Internal Server Error',
       status: 500,
-      detail: 'Failed to create rate plan',
+      detail: 'Failed to update rates',
       instance: req.url,
       timestamp: new Date().toISOString(),
       requestId: req.id
@@ -335,49 +538,1274 @@ router.post('/rate-plans', async (req, res) => {
 });
 
 /**
- * GET /v1/admin/bookings
- * List all bookings with filters
+ * GET /v1/admin/restrictions
+ * Get stay restrictions for a date range
  */
-router.get('/bookings', async (req, res) => {
+router.get('/restrictions', async (req, res) => {
   try {
-    const { status, startDate, endDate } = req.query;
+    const { startDate, endDate, roomTypeId } = req.query;
     
     const where: any = {};
     
-    if (status) {
-      where.status = status;
-    }
-    
     if (startDate && endDate) {
-      where.checkIn = {
+      where.date = {
         gte: new Date(startDate as string),
         lte: new Date(endDate as string)
       };
     }
+    
+    if (roomTypeId) {
+      where.roomTypeId = roomTypeId;
+    }
 
-    const bookings = await prisma.booking.findMany({
+    const restrictions = await prisma.stayRestriction.findMany({
       where,
       include: {
         roomType: {
           select: { name: true }
-        },
-        user: {
-          select: { name: true, email: true }
         }
       },
+      orderBy: [
+        { date: 'asc' },
+        { roomType: { name: 'asc' } }
+      ]
+    });
+
+    res.json({ restrictions });
+
+  } catch (error) {
+    console.error('Get restrictions error:', error);
+    
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to get restrictions',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * PUT /v1/admin/restrictions/bulk
+ * Set or clear stay restrictions across date ranges and days of the week.
+ * Only the fields present in an update are changed.
+ */
+router.put('/restrictions/bulk', async (req, res) => {
+  try {
+    const updates = z.array(bulkRestrictionSchema).parse(req.body);
+    
+    let updated = 0;
+    let cleared = 0;
+    
+    for (const update of updates) {
+      const { roomTypeId, startDate, endDate, daysOfWeek, clear, ...fields } = update;
+      const dates = expandDateRange(new Date(startDate), new Date(endDate), daysOfWeek);
+
+      if (clear) {
+        const result = await prisma.stayRestriction.deleteMany({
+          where: {
+            roomTypeId,
+            date: { in: dates }
+          }
+        });
+        cleared += result.count;
+        continue;
+      }
+
+      // Drop fields that were not sent so they keep their current value
+      const data = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined)
+      );
+
+      for (const date of dates) {
+        await prisma.stayRestriction.upsert({
+          where: {
+            roomTypeId_date: { roomTypeId, date }
+          },
+          update: data,
+          create: {
+            roomTypeId,
+            date,
+            ...data
+          }
+        });
+        updated++;
+      }
+    }
+
+    res.json({ 
+      message: `Updated ${updated} and cleared ${cleared} restriction records`,
+      updated,
+      cleared
+    });
+
+  } catch (error) {
+    console.error('Bulk update restrictions error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid restriction data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to update restrictions',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * GET /v1/admin/rate-plans
+ * List all rate plans
+ */
+router.get('/rate-plans', async (req, res) => {
+  try {
+    const ratePlans = await prisma.ratePlan.findMany({
       orderBy: { createdAt: 'desc' }
     });
 
-    res.json({ bookings });
+    res.json({ ratePlans });
 
   } catch (error) {
-    console.error('Get bookings error:', error);
+    console.error('Get rate plans error:', error);
     
     res.status(500).json({
       type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
       title: 'Internal Server Error',
       status: 500,
-      detail: 'Failed to get bookings',
+      detail: 'Failed to get rate plans',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * POST /v1/admin/rate-plans
+ * Create a new rate plan
+ */
+router.post('/rate-plans', async (req, res) => {
+  try {
+    const data = createRatePlanSchema.parse(req.body);
+
+    if (data.paymentMode === 'DEPOSIT' && !data.depositPct) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Deposit rate plans need a depositPct',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+    
+    const ratePlan = await prisma.ratePlan.create({
+      data: {
+        name: data.name,
+        refundable: data.refundable,
+        discountPct: data.discountPct ?? null,
+        paymentMode: data.paymentMode,
+        depositPct: data.depositPct ?? null,
+        noShowPolicy: data.noShowPolicy,
+        active: data.active
+      }
+    });
+
+    res.status(201).json({ ratePlan });
+
+  } catch (error) {
+    console.error('Create rate plan error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid rate plan data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to create rate plan',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * PUT /v1/admin/rate-plans/:id
+ * Update a rate plan
+ */
+router.put('/rate-plans/:id', async (req, res) => {
+  try {
+    const ratePlanId = req.params.id;
+    const data = createRatePlanSchema.partial().parse(req.body);
+
+    if (data.paymentMode || data.depositPct !== undefined) {
+      const existing = await prisma.ratePlan.findUnique({ where: { id: ratePlanId } });
+      const paymentMode = data.paymentMode ?? existing?.paymentMode;
+      const depositPct = data.depositPct !== undefined ? data.depositPct : existing?.depositPct;
+
+      if (paymentMode === 'DEPOSIT' && !depositPct) {
+        return res.status(400).json({
+          type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+          title: 'Bad Request',
+          status: 400,
+          detail: 'Deposit rate plans need a depositPct',
+          instance: req.url,
+          timestamp: new Date().toISOString(),
+          requestId: req.id
+        });
+      }
+    }
+    
+    const ratePlan = await prisma.ratePlan.update({
+      where: { id: ratePlanId },
+      data: sentFields(data)
+    });
+
+    res.json({ ratePlan });
+
+  } catch (error) {
+    console.error('Update rate plan error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid rate plan data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to update rate plan',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * GET /v1/admin/promo-codes
+ * List promo codes with redemption counts
+ */
+router.get('/promo-codes', async (req, res) => {
+  try {
+    const promoCodes = await prisma.promoCode.findMany({
+      include: { _count: { select: { redemptions: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({ promoCodes });
+
+  } catch (error) {
+    console.error('Get promo codes error:', error);
+    
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to get promo codes',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * POST /v1/admin/promo-codes
+ * Create a new promo code
+ */
+router.post('/promo-codes', async (req, res) => {
+  try {
+    const data = createPromoCodeSchema
+      .refine((promo) => promo.discountType !== 'PERCENT' || promo.discountValue <= 100, {
+        message: 'Percentage discount cannot exceed 100',
+        path: ['discountValue']
+      })
+      .parse(req.body);
+
+    const existingPromoCode = await prisma.promoCode.findUnique({
+      where: { code: data.code }
+    });
+
+    if (existingPromoCode) {
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: 'Promo code already exists',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+    
+    const promoCode = await prisma.promoCode.create({
+      data: {
+        code: data.code,
+        description: data.description ?? null,
+        discountType: data.discountType,
+        discountValue: data.discountValue,
+        validFrom: data.validFrom ?? null,
+        validTo: data.validTo ?? null,
+        stayFrom: data.stayFrom ?? null,
+        stayTo: data.stayTo ?? null,
+        minNights: data.minNights ?? null,
+        roomTypeIds: data.roomTypeIds,
+        maxRedemptions: data.maxRedemptions ?? null,
+        maxPerUser: data.maxPerUser ?? null,
+        active: data.active
+      }
+    });
+
+    res.status(201).json({ promoCode });
+
+  } catch (error) {
+    console.error('Create promo code error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid promo code data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to create promo code',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * PUT /v1/admin/promo-codes/:id
+ * Update a promo code. The code itself cannot be changed once issued.
+ */
+router.put('/promo-codes/:id', async (req, res) => {
+  try {
+    const promoCodeId = req.params.id;
+    const data = createPromoCodeSchema.omit({ code: true }).partial().parse(req.body);
+    
+    const promoCode = await prisma.promoCode.update({
+      where: { id: promoCodeId },
+      data: sentFields(data)
+    });
+
+    res.json({ promoCode });
+
+  } catch (error) {
+    console.error('Update promo code error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid promo code data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to update promo code',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * GET /v1/admin/loyalty-tiers
+ * List loyalty tiers from the lowest rank up, with their member counts
+ */
+router.get('/loyalty-tiers', async (req, res) => {
+  try {
+    const [tiers, members] = await Promise.all([
+      prisma.loyaltyTier.findMany({ orderBy: { rank: 'asc' } }),
+      prisma.user.groupBy({ by: ['tier'], _count: { _all: true } })
+    ]);
+
+    res.json({
+      tiers: tiers.map(tier => ({
+        ...tier,
+        members: members.find(group => group.tier === tier.code)?._count._all ?? 0
+      }))
+    });
+
+  } catch (error) {
+    console.error('Get loyalty tiers error:', error);
+    
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to get loyalty tiers',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * POST /v1/admin/loyalty-tiers
+ * Create a loyalty tier. Members move into it at their next evaluation.
+ */
+router.post('/loyalty-tiers', async (req, res) => {
+  try {
+    const data = loyaltyTierSchema.parse(req.body);
+
+    const tier = await prisma.loyaltyTier.create({ data });
+
+    res.status(201).json({ tier });
+
+  } catch (error) {
+    console.error('Create loyalty tier error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid loyalty tier data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: 'A loyalty tier with this code or rank already exists',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to create loyalty tier',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * PUT /v1/admin/loyalty-tiers/:id
+ * Update a loyalty tier's thresholds, grace period or benefits. The code
+ * is fixed since members' tiers refer to it.
+ */
+router.put('/loyalty-tiers/:id', async (req, res) => {
+  try {
+    const data = loyaltyTierSchema.omit({ code: true }).partial().parse(req.body);
+
+    const existing = await prisma.loyaltyTier.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
+        title: 'Not Found',
+        status: 404,
+        detail: 'Loyalty tier not found',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const tier = await prisma.loyaltyTier.update({
+      where: { id: existing.id },
+      data: data as Prisma.LoyaltyTierUpdateInput // Parsed fields are never explicitly undefined
+    });
+
+    res.json({ tier });
+
+  } catch (error) {
+    console.error('Update loyalty tier error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid loyalty tier data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: 'A loyalty tier with this rank already exists',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to update loyalty tier',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * GET /v1/admin/earn-rules
+ * List loyalty earn rules, oldest first
+ */
+router.get('/earn-rules', async (req, res) => {
+  try {
+    const rules = await prisma.earnRule.findMany({ orderBy: { createdAt: 'asc' } });
+
+    res.json({ rules });
+
+  } catch (error) {
+    console.error('Get earn rules error:', error);
+    
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to get earn rules',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * POST /v1/admin/earn-rules
+ * Create an earn rule. It applies to stays checked out from now on.
+ */
+router.post('/earn-rules', async (req, res) => {
+  try {
+    const data = earnRuleSchema.parse(req.body);
+
+    const problem = earnRuleProblem(data);
+    if (problem) {
+      return res.status(422).json({
+        type: 'https://tools.ietf.org/html/rfc4918#section-11.2',
+        title: 'Unprocessable Entity',
+        status: 422,
+        detail: problem,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const rule = await prisma.earnRule.create({ data });
+
+    res.status(201).json({ rule });
+
+  } catch (error) {
+    console.error('Create earn rule error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid earn rule data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to create earn rule',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * PUT /v1/admin/earn-rules/:id
+ * Update an earn rule, or deactivate it with active: false. Points already
+ * awarded keep the breakdown they were given with.
+ */
+router.put('/earn-rules/:id', async (req, res) => {
+  try {
+    const data = earnRuleSchema.partial().parse(req.body);
+
+    const existing = await prisma.earnRule.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
+        title: 'Not Found',
+        status: 404,
+        detail: 'Earn rule not found',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const problem = earnRuleProblem({ ...existing, ...data } as EarnRuleInput);
+    if (problem) {
+      return res.status(422).json({
+        type: 'https://tools.ietf.org/html/rfc4918#section-11.2',
+        title: 'Unprocessable Entity',
+        status: 422,
+        detail: problem,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const rule = await prisma.earnRule.update({
+      where: { id: existing.id },
+      data: data as Prisma.EarnRuleUpdateInput // Parsed fields are never explicitly undefined
+    });
+
+    res.json({ rule });
+
+  } catch (error) {
+    console.error('Update earn rule error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid earn rule data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to update earn rule',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * GET /v1/admin/bookings
+ * List all bookings with filters
+ */
+router.get('/bookings', async (req, res) => {
+  try {
+    const { status, startDate, endDate } = req.query;
+    
+    const where: any = {};
+    
+    if (status) {
+      where.status = status;
+    }
+    
+    if (startDate && endDate) {
+      where.checkIn = {
+        gte: new Date(startDate as string),
+        lte: new Date(endDate as string)
+      };
+    }
+
+    const bookings = await prisma.booking.findMany({
+      where,
+      include: {
+        roomType: {
+          select: { name: true }
+        },
+        ratePlan: {
+          select: { name: true, refundable: true }
+        },
+        rooms: {
+          include: {
+            roomType: { select: { name: true } }
+          }
+        },
+        user: {
+          select: { name: true, email: true }
+        },
+        payments: {
+          select: { amountPaise: true, status: true }
+        },
+        refunds: {
+          select: { amountPaise: true, status: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      bookings: bookings.map(({ payments, refunds, ...booking }) => ({
+        ...booking,
+        balance: bookingBalance(booking, payments, refunds)
+      }))
+    });
+
+  } catch (error) {
+    console.error('Get bookings error:', error);
+    
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to get bookings',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * GET /v1/admin/bookings/:id/payments
+ * Every payment attempt and refund on a booking, oldest first, with its
+ * balance
+ */
+router.get('/bookings/:id/payments', async (req, res) => {
+  try {
+    const booking = await prisma.booking.findUnique({
+      where: { id: req.params.id },
+      include: {
+        payments: true,
+        refunds: true
+      }
+    });
+
+    if (!booking) {
+      return res.status(404).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
+        title: 'Not Found',
+        status: 404,
+        detail: 'Booking not found',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const timeline = [
+      ...booking.payments.map(payment => ({
+        kind: 'PAYMENT' as const,
+        id: payment.id,
+        type: payment.purpose,
+        method: payment.method,
+        reference: payment.reference,
+        amountPaise: payment.amountPaise,
+        status: payment.status,
+        razorpayOrderId: payment.razorpayOrderId,
+        razorpayPaymentId: payment.razorpayPaymentId,
+        razorpayRefundId: null,
+        revisionId: payment.revisionId,
+        failureReason: payment.failureReason,
+        payload: payment.payload,
+        createdAt: payment.createdAt,
+        settledAt: payment.capturedAt
+      })),
+      ...booking.refunds.map(refund => ({
+        kind: 'REFUND' as const,
+        id: refund.id,
+        type: refund.reason,
+        method: null,
+        reference: null,
+        amountPaise: refund.amountPaise,
+        status: refund.status,
+        razorpayOrderId: null,
+        razorpayPaymentId: refund.razorpayPaymentId,
+        razorpayRefundId: refund.razorpayRefundId,
+        revisionId: refund.revisionId,
+        failureReason: refund.failureReason,
+        payload: refund.payload,
+        createdAt: refund.createdAt,
+        settledAt: refund.processedAt
+      }))
+    ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    res.json({
+      bookingId: booking.id,
+      status: booking.status,
+      amountPaise: booking.amountPaise,
+      balance: bookingBalance(booking, booking.payments, booking.refunds),
+      timeline
+    });
+
+  } catch (error) {
+    console.error('Get booking payments error:', error);
+    
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to get booking payments',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * GET /v1/admin/bookings/:id/transitions
+ * A booking's status history, oldest first, with who made each change
+ */
+router.get('/bookings/:id/transitions', async (req, res) => {
+  try {
+    const booking = await prisma.booking.findUnique({
+      where: { id: req.params.id },
+      include: { transitions: { orderBy: { createdAt: 'asc' } } }
+    });
+
+    if (!booking) {
+      return res.status(404).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
+        title: 'Not Found',
+        status: 404,
+        detail: 'Booking not found',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const actorIds = booking.transitions.flatMap(transition => transition.actorId ? [transition.actorId] : []);
+    const actors = await prisma.user.findMany({
+      where: { id: { in: actorIds } },
+      select: { id: true, email: true }
+    });
+
+    res.json({
+      bookingId: booking.id,
+      status: booking.status,
+      transitions: booking.transitions.map(transition => ({
+        id: transition.id,
+        fromStatus: transition.fromStatus,
+        toStatus: transition.toStatus,
+        actor: transition.actor,
+        actorId: transition.actorId,
+        actorEmail: actors.find(actor => actor.id === transition.actorId)?.email ?? null,
+        reason: transition.reason,
+        createdAt: transition.createdAt
+      }))
+    });
+
+  } catch (error) {
+    console.error('Get booking transitions error:', error);
+    
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to get booking history',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * POST /v1/admin/bookings/:id/collect-balance
+ * Record money collected at the property, e.g. the balance of a deposit or
+ * pay-at-property booking at check-in
+ */
+router.post('/bookings/:id/collect-balance', idempotent, async (req, res) => {
+  try {
+    const data = collectBalanceSchema.parse(req.body);
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: req.params.id },
+      include: {
+        payments: true,
+        refunds: true
+      }
+    });
+
+    if (!booking) {
+      return res.status(404).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
+        title: 'Not Found',
+        status: 404,
+        detail: 'Booking not found',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    // Balances are settled during the stay or on departure; no-shows owe their charge
+    if (!['CONFIRMED', 'CHECKED_IN', 'CHECKED_OUT', 'NO_SHOW'].includes(booking.status)) {
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: `Cannot collect payment for a ${booking.status.toLowerCase().replace('_', ' ')} booking`,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const { outstandingPaise } = bookingBalance(booking, booking.payments, booking.refunds);
+    if (data.amountPaise > outstandingPaise) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: `Amount exceeds the outstanding balance of ₹${outstandingPaise / 100}`,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const payment = await recordPropertyPayment({
+      bookingId: booking.id,
+      amountPaise: data.amountPaise,
+      method: data.method,
+      reference: data.reference,
+      recordedBy: req.user?.id ?? null
+    });
+
+    console.log(`💰 ₹${data.amountPaise / 100} (${data.method}) collected at the property for booking ${booking.id}`);
+
+    res.status(201).json({
+      payment,
+      balance: bookingBalance(booking, [...booking.payments, payment], booking.refunds)
+    });
+
+  } catch (error) {
+    console.error('Collect balance error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid payment data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to record payment',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * GET /v1/admin/webhook-events
+ * List webhook events that need attention (failed or rejected by default)
+ */
+router.get('/webhook-events', async (req, res) => {
+  try {
+    const status = webhookEventStatusSchema.optional().parse(req.query.status);
+
+    const events = await prisma.webhookEvent.findMany({
+      where: { status: status ?? { in: ['FAILED', 'REJECTED'] } },
+      orderBy: { receivedAt: 'desc' },
+      take: 100
+    });
+
+    res.json({ events });
+
+  } catch (error) {
+    console.error('Get webhook events error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid webhook event status',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to get webhook events',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * POST /v1/admin/webhook-events/:id/replay
+ * Process a failed, rejected or stalled webhook event again
+ */
+router.post('/webhook-events/:id/replay', async (req, res) => {
+  try {
+    const event = await prisma.webhookEvent.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!event) {
+      return res.status(404).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
+        title: 'Not Found',
+        status: 404,
+        detail: 'Webhook event not found',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    if (event.status !== 'FAILED' && event.status !== 'REJECTED' && !isStalled(event)) {
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: `Event is ${event.status.toLowerCase()} and cannot be replayed`,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const outcome = await replayWebhookEvent(event);
+    const replayed = await prisma.webhookEvent.findUniqueOrThrow({
+      where: { id: event.id }
+    });
+
+    res.json({ outcome, event: replayed });
+
+  } catch (error) {
+    console.error('Replay webhook event error:', error);
+    
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to replay webhook event',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * GET /v1/admin/reconciliation
+ * Recent daily payment reconciliation reports, without their rows
+ */
+router.get('/reconciliation', async (req, res) => {
+  try {
+    const reports = await prisma.reconciliationReport.findMany({
+      select: { id: true, date: true, source: true, summary: true, createdAt: true, updatedAt: true },
+      orderBy: { date: 'desc' },
+      take: 30
+    });
+
+    res.json({ reports });
+
+  } catch (error) {
+    console.error('Get reconciliation reports error:', error);
+    
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to get reconciliation reports',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * GET /v1/admin/reconciliation/:date
+ * A day's reconciliation report. Add ?format=csv to download it.
+ */
+router.get('/reconciliation/:date', async (req, res) => {
+  try {
+    const date = reconciliationDateSchema.parse(req.params.date);
+
+    const report = await prisma.reconciliationReport.findUnique({ where: { date } });
+
+    if (!report) {
+      return res.status(404).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
+        title: 'Not Found',
+        status: 404,
+        detail: `No reconciliation report for ${date}`,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="reconciliation-${date}.csv"`);
+      return res.send(reconciliationCsv(report));
+    }
+
+    res.json({ report });
+
+  } catch (error) {
+    console.error('Get reconciliation report error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid date',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to get reconciliation report',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * POST /v1/admin/reconciliation/:date/run
+ * Reconcile a day now, replacing any earlier report for it
+ */
+router.post('/reconciliation/:date/run', async (req, res) => {
+  try {
+    const date = reconciliationDateSchema.parse(req.params.date);
+
+    const report = await reconcileDay(date);
+
+    res.json({ report });
+
+  } catch (error) {
+    console.error('Run reconciliation error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid date',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to reconcile payments',
       instance: req.url,
       timestamp: new Date().toISOString(),
       requestId: req.id
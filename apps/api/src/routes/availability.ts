@@ -1,15 +1,25 @@
 import { Router } from 'express';
 import { z } from 'zod';
+import { buildPriceQuote, combinePriceQuotes } from '@podnbeyond/shared';
 import { prisma } from '../lib/prisma';
+import { env } from '../lib/env';
+import { loadRateCalendar, getNightlyRates } from '../lib/pricing';
+import { checkStayRestrictions } from '../lib/restrictions';
+import { taxConfig } from '../lib/tax';
+import { findRoomCombinations } from '../lib/combinations';
 
 const router = Router();
 
+const MAX_ROOMS_PER_BOOKING = 10;
+
 // Validation schema for availability query
 const availabilityQuerySchema = z.object({
   checkIn: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid check-in date'),
   checkOut: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid check-out date'),
-  guests: z.coerce.number().min(1).max(10),
+  guests: z.coerce.number().min(1).max(30), // Parties above a room's capacity get room combinations
   roomTypeId: z.string().optional(),
+  ratePlanId: z.string().optional(),
+  includeRestricted: z.enum(['true', 'false']).optional(), // Flag instead of dropping restricted rooms
 });
 
 /**
@@ -41,12 +51,10 @@ router.get('/', async (req, res) => {
     // Build room type filter
     const roomTypeFilter = query.roomTypeId ? { id: query.roomTypeId } : {};
 
-    // Get room types with availability
+    // Get room types with availability. Smaller rooms are kept so large
+    // parties can be offered combinations of rooms.
     const roomTypes = await prisma.roomType.findMany({
-      where: {
-        ...roomTypeFilter,
-        capacity: { gte: query.guests }
-      },
+      where: roomTypeFilter,
       include: {
         inventory: {
           where: {
@@ -59,8 +67,31 @@ router.get('/', async (req, res) => {
       }
     });
 
-    // Calculate availability and pricing
-    const availableRooms = roomTypes.map(roomType => {
+    // Get active rate plans to price each room type with
+    const ratePlans = await prisma.ratePlan.findMany({
+      where: {
+        active: true,
+        ...(query.ratePlanId ? { id: query.ratePlanId } : {})
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    // Load date-specific nightly rates for every room type at once
+    const rateCalendar = await loadRateCalendar(
+      roomTypes.map(roomType => roomType.id),
+      checkIn,
+      checkOut
+    );
+
+    // Check min/max stay, closed-to-arrival/departure and stop-sell
+    const restrictions = await checkStayRestrictions(
+      roomTypes.map(roomType => roomType.id),
+      checkIn,
+      checkOut
+    );
+
+    // Calculate availability of each room type
+    const bookable = roomTypes.flatMap(roomType => {
       // Check if all dates have sufficient inventory
       const requiredDates = [];
       for (let d = new Date(checkIn); d < checkOut; d.setDate(d.getDate() + 1)) {
@@ -80,46 +111,88 @@ router.get('/', async (req, res) => {
           break;
         }
         
-        const available = inventory.allotment - inventory.booked;
+        const available = inventory.allotment + env.OVERBOOKING_ALLOWANCE - inventory.booked - inventory.held;
         minAvailable = Math.min(minAvailable, available);
       }
 
       if (!hasAllDates || minAvailable <= 0) {
-        return null; // Not available
+        return []; // Not available
       }
 
-      // Calculate pricing (simplified - using base rate)
-      const baseAmount = roomType.baseRate * nights;
-      const serviceCharge = Math.round(baseAmount * 0.10); // 10% service charge
-      const gstOnRoom = Math.round(baseAmount * 0.12); // 12% GST on room
-      const gstOnService = Math.round(serviceCharge * 0.18); // 18% GST on service
-      const totalAmount = baseAmount + serviceCharge + gstOnRoom + gstOnService;
+      const violations = restrictions.get(roomType.id) ?? [];
+      if (violations.length > 0 && query.includeRestricted !== 'true') {
+        return []; // Stay breaks a restriction
+      }
 
-      return {
+      return [{ roomType, available: minAvailable, violations }];
+    });
+
+    const priceRoom = (roomType: typeof roomTypes[number], ratePlan: typeof ratePlans[number], guests: number) =>
+      buildPriceQuote({
+        roomType,
+        ratePlan,
+        checkIn,
+        checkOut,
+        guests,
+        nightlyRates: getNightlyRates(rateCalendar, roomType.id, ratePlan.id),
+        taxConfig
+      });
+
+    // One result per active rate plan for rooms that fit the whole party
+    const availableRooms = bookable
+      .filter(({ roomType }) => roomType.capacity >= query.guests)
+      .flatMap(({ roomType, available, violations }) => ratePlans.map(ratePlan => ({
         roomTypeId: roomType.id,
+        ratePlanId: ratePlan.id,
+        ratePlanName: ratePlan.name,
+        refundable: ratePlan.refundable,
+        paymentMode: ratePlan.paymentMode,
+        depositPct: ratePlan.depositPct,
         name: roomType.name,
         capacity: roomType.capacity,
         amenities: roomType.amenities,
         images: roomType.images,
-        available: minAvailable,
-        pricing: {
-          nights,
-          baseRate: roomType.baseRate,
-          baseAmount,
-          serviceCharge,
-          gstOnRoom,
-          gstOnService,
-          totalAmount
-        }
+        available,
+        restrictions: violations,
+        pricing: priceRoom(roomType, ratePlan, query.guests)
+      })));
+
+    // Parties too large for any single room get combinations of
+    // unrestricted rooms instead
+    const combinations = availableRooms.length > 0 ? [] : findRoomCombinations(
+      bookable
+        .filter(({ violations }) => violations.length === 0)
+        .map(({ roomType, available }) => ({ roomTypeId: roomType.id, capacity: roomType.capacity, available, roomType })),
+      query.guests,
+      MAX_ROOMS_PER_BOOKING
+    ).flatMap(allocation => ratePlans.map(ratePlan => {
+      const rooms = allocation.map(({ roomType, guests }) => ({
+        roomTypeId: roomType.id,
+        name: roomType.name,
+        capacity: roomType.capacity,
+        guests,
+        pricing: priceRoom(roomType, ratePlan, guests)
+      }));
+
+      return {
+        ratePlanId: ratePlan.id,
+        ratePlanName: ratePlan.name,
+        refundable: ratePlan.refundable,
+        paymentMode: ratePlan.paymentMode,
+        depositPct: ratePlan.depositPct,
+        capacity: rooms.reduce((total, room) => total + room.capacity, 0),
+        rooms,
+        pricing: combinePriceQuotes(rooms.map(room => room.pricing))
       };
-    }).filter(Boolean);
+    }));
 
     res.json({
       checkIn: checkIn.toISOString().split('T')[0],
       checkOut: checkOut.toISOString().split('T')[0],
       guests: query.guests,
       nights,
-      rooms: availableRooms
+      rooms: availableRooms,
+      combinations
     });
 
   } catch (error) {
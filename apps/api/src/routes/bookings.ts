@@ -1,129 +1,616 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import { PaymentMode, Prisma, PromoCode, Refund } from '@prisma/client';
+import { calculateNights, combinePriceQuotes, formatDate } from '@podnbeyond/shared';
 import { prisma } from '../lib/prisma';
-import { createOrder, verifyWebhookSignature, getRazorpayKeyId } from '../lib/razorpay';
-import { requireAuth } from '../lib/auth';
+import { quoteStay } from '../lib/pricing';
+import { paymentProvider } from '../lib/gateway';
+import { optionalAuth } from '../lib/auth';
+import { idempotent } from '../lib/idempotency';
+import { calculateRefund } from '../lib/cancellation';
+import { refundBooking, refundUnconfirmedPayment } from '../lib/refunds';
+import {
+  amountDueNow,
+  bookingBalance,
+  recordOrder,
+  recordPaymentAttempt,
+  confirmBookingPayment
+} from '../lib/payments';
+import { checkStayRestrictions } from '../lib/restrictions';
+import {
+  POINT_VALUE_PAISE,
+  maxRedeemablePoints,
+  takePoints,
+  PointsUnavailableError
+} from '../lib/redemption';
+import { validatePromoCode, promoAppliesTo, lockPromoUsage, PromoUnavailableError } from '../lib/promo';
+import {
+  holdRooms,
+  holdExpiresAt,
+  confirmRooms,
+  bookRooms,
+  unbookRooms,
+  InventoryUnavailableError
+} from '../lib/inventory';
+import {
+  transitionBooking,
+  transitionBlocker,
+  recordTransition,
+  requestActor
+} from '../lib/lifecycle';
 
 const router = Router();
 
+// Signed-in guests are linked to their bookings; everyone else books as a guest
+router.use(optionalAuth);
+
 // Validation schemas
-const createBookingSchema = z.object({
+const bookingRoomSchema = z.object({
   roomTypeId: z.string().cuid(),
+  guests: z.number().min(1).max(10),
+});
+
+const stayRequestSchema = z.object({
+  roomTypeId: z.string().cuid().optional(),
+  guests: z.number().min(1).max(10).optional(),
+  rooms: z.array(bookingRoomSchema).min(1).max(10).optional(), // Multi-room booking
+  ratePlanId: z.string().min(1).optional(),
   checkIn: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid check-in date'),
   checkOut: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid check-out date'),
-  guests: z.number().min(1).max(10),
-  guestName: z.string().min(1).max(100),
-  guestEmail: z.string().email(),
-  guestPhone: z.string().optional(),
+  promoCode: z.string().min(1).max(50).optional(),
+  redeemPoints: z.number().int().min(1).optional(), // Loyalty points off the price; signed-in guests only
 });
 
+// A stay is either a single room (roomTypeId + guests) or a list of rooms
+const hasRooms = (stay: z.infer<typeof stayRequestSchema>) =>
+  stay.rooms ? !stay.roomTypeId && !stay.guests : Boolean(stay.roomTypeId && stay.guests);
+
+const roomsMessage = { message: 'Provide either roomTypeId and guests, or rooms', path: ['rooms'] };
+
+const createBookingSchema = stayRequestSchema
+  .extend({
+    guestName: z.string().min(1).max(100),
+    guestEmail: z.string().email(),
+    guestPhone: z.string().optional(),
+  })
+  .refine(hasRooms, roomsMessage);
+
+const quoteBookingSchema = stayRequestSchema
+  .extend({ guestEmail: z.string().email().optional() })
+  .refine(hasRooms, roomsMessage);
+
+const modifyBookingSchema = z.object({
+  email: z.string().email().optional(), // Required unless signed in as the owner
+  checkIn: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid check-in date').optional(),
+  checkOut: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid check-out date').optional(),
+  roomTypeId: z.string().cuid().optional(),
+  guests: z.number().min(1).max(10).optional(),
+  rooms: z.array(bookingRoomSchema).min(1).max(10).optional(),
+}).refine((change) => !change.rooms || (!change.roomTypeId && !change.guests), roomsMessage);
+
+const verifyPaymentSchema = z.object({
+  razorpayOrderId: z.string().min(1),
+  razorpayPaymentId: z.string().min(1),
+  razorpaySignature: z.string().min(1),
+});
+
+const cancelBookingSchema = z.object({
+  email: z.string().email().optional(), // Required unless signed in as the owner
+  reason: z.string().max(500).optional(),
+});
+
+type StayRequest = z.infer<typeof quoteBookingSchema>;
+
+const managedBookingInclude = {
+  roomType: true,
+  ratePlan: true,
+  rooms: { include: { roomType: true } },
+  promoRedemption: { include: { promoCode: true } },
+  revisions: { orderBy: { createdAt: 'desc' as const } },
+  payments: { orderBy: { createdAt: 'asc' as const } },
+  refunds: { orderBy: { createdAt: 'desc' as const } }
+};
+
+type ManagedBooking = Prisma.BookingGetPayload<{ include: typeof managedBookingInclude }>;
+
 /**
- * POST /v1/bookings
- * Create a new booking with Razorpay order
+ * Describe a booking's rooms, e.g. "2 × Deluxe Room, Executive Suite"
  */
-router.post('/', async (req, res) => {
-  try {
-    const data = createBookingSchema.parse(req.body);
-    
-    const checkIn = new Date(data.checkIn);
-    const checkOut = new Date(data.checkOut);
-    
-    // Validate dates
-    if (checkIn >= checkOut) {
-      return res.status(400).json({
+function describeRooms(rooms: Array<{ roomType: { id: string; name: string } }>): string {
+  const counts = new Map<string, { name: string; count: number }>();
+  for (const { roomType } of rooms) {
+    const entry = counts.get(roomType.id) ?? { name: roomType.name, count: 0 };
+    entry.count++;
+    counts.set(roomType.id, entry);
+  }
+
+  return Array.from(counts.values())
+    .map(({ name, count }) => (count > 1 ? `${count} × ${name}` : name))
+    .join(', ');
+}
+
+/**
+ * Validate a requested stay and price each room. Sends the problem response
+ * and returns null when the stay cannot be booked. A promo code already
+ * redeemed by the booking can be passed in to skip re-validating it.
+ */
+async function priceStayRequest(
+  req: Request,
+  res: Response,
+  data: StayRequest,
+  appliedPromo?: PromoCode | null
+) {
+  const checkIn = new Date(data.checkIn);
+  const checkOut = new Date(data.checkOut);
+  const requestedRooms = data.rooms ?? [{ roomTypeId: data.roomTypeId ?? '', guests: data.guests ?? 0 }];
+
+  // Validate dates
+  if (checkIn >= checkOut) {
+    res.status(400).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'Check-out date must be after check-in date',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+    return null;
+  }
+
+  // Check that every room type exists and has capacity
+  const roomTypeIds = Array.from(new Set(requestedRooms.map(room => room.roomTypeId)));
+  const roomTypes = await prisma.roomType.findMany({
+    where: { id: { in: roomTypeIds } }
+  });
+
+  const lines = [];
+  for (const room of requestedRooms) {
+    const roomType = roomTypes.find(type => type.id === room.roomTypeId);
+
+    if (!roomType) {
+      res.status(404).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
+        title: 'Not Found',
+        status: 404,
+        detail: 'Room type not found',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+      return null;
+    }
+
+    if (roomType.capacity < room.guests) {
+      res.status(400).json({
         type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
         title: 'Bad Request',
         status: 400,
-        detail: 'Check-out date must be after check-in date',
+        detail: `Room capacity exceeded for ${roomType.name}`,
         instance: req.url,
         timestamp: new Date().toISOString(),
         requestId: req.id
       });
+      return null;
     }
 
-    // Check if room type exists and has capacity
-    const roomType = await prisma.roomType.findUnique({
-      where: { id: data.roomTypeId }
+    lines.push({ roomType, guests: room.guests });
+  }
+
+  // Reject stays that break a restriction
+  const restrictions = await checkStayRestrictions(roomTypeIds, checkIn, checkOut);
+  const violations = roomTypeIds.flatMap(roomTypeId => restrictions.get(roomTypeId) ?? []);
+  if (violations.length > 0) {
+    res.status(422).json({
+      type: 'https://tools.ietf.org/html/rfc4918#section-11.2',
+      title: 'Unprocessable Entity',
+      status: 422,
+      detail: violations.map(violation => violation.message).join('; '),
+      restrictions: violations,
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
     });
+    return null;
+  }
 
-    if (!roomType) {
-      return res.status(404).json({
+  // Resolve the rate plan the guest selected; it applies to every room
+  let ratePlan = null;
+  if (data.ratePlanId) {
+    ratePlan = await prisma.ratePlan.findFirst({
+      where: { id: data.ratePlanId, active: true }
+    });
+
+    if (!ratePlan) {
+      res.status(404).json({
         type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
         title: 'Not Found',
         status: 404,
-        detail: 'Room type not found',
+        detail: 'Rate plan not found',
         instance: req.url,
         timestamp: new Date().toISOString(),
         requestId: req.id
       });
+      return null;
+    }
+  }
+
+  // Apply the promo code, if any
+  let promoCode = appliedPromo ?? null;
+  if (appliedPromo === undefined && data.promoCode) {
+    const promo = await validatePromoCode({
+      code: data.promoCode,
+      roomTypeIds,
+      checkIn,
+      checkOut,
+      userId: req.user?.id,
+      guestEmail: data.guestEmail
+    });
+
+    if (!promo.valid) {
+      res.status(422).json({
+        type: 'https://tools.ietf.org/html/rfc4918#section-11.2',
+        title: 'Unprocessable Entity',
+        status: 422,
+        detail: promo.reason,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+      return null;
+    }
+
+    promoCode = promo.promoCode;
+  }
+
+  // Calculate pricing per room. Percentage promos discount every eligible
+  // room; a flat promo is taken off the first eligible room only.
+  let flatPromoUsed = false;
+  const rooms = [];
+  for (const line of lines) {
+    let promo = null;
+    if (promoCode && promoAppliesTo(promoCode, line.roomType.id) && !flatPromoUsed) {
+      promo = promoCode;
+      flatPromoUsed = promoCode.discountType === 'FLAT';
+    }
+
+    const pricing = await quoteStay({
+      roomType: line.roomType,
+      ratePlan,
+      checkIn,
+      checkOut,
+      guests: line.guests,
+      promo
+    });
+
+    rooms.push({ ...line, pricing });
+  }
+
+  // The booking's own room type is its first room's
+  const [firstRoom] = rooms;
+  if (!firstRoom) {
+    res.status(400).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'At least one room is required',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+    return null;
+  }
+
+  const pricing = combinePriceQuotes(rooms.map(room => room.pricing));
+  const guests = rooms.reduce((total, room) => total + room.guests, 0);
+
+  return { checkIn, checkOut, rooms, firstRoom, guests, ratePlan, promoCode, pricing };
+}
+
+/**
+ * Check the loyalty points a guest wants to put towards a stay: they must
+ * be signed in, within the cap for the stay and have the points. Sends the
+ * problem response and returns null when they can't be redeemed.
+ */
+async function pointsToRedeem(
+  req: Request,
+  res: Response,
+  points: number | undefined,
+  totalPaise: number
+): Promise<number | null> {
+  if (!points) {
+    return 0;
+  }
+
+  if (!req.user) {
+    res.status(401).json({
+      type: 'https://tools.ietf.org/html/rfc7235#section-3.1',
+      title: 'Unauthorized',
+      status: 401,
+      detail: 'Sign in to redeem loyalty points',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+    return null;
+  }
+
+  const maxPoints = maxRedeemablePoints(totalPaise);
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: req.user.id },
+    select: { points: true }
+  });
+
+  const problem = points > maxPoints
+    ? `At most ${maxPoints} points can be redeemed on this booking`
+    : points > user.points
+      ? `You have ${user.points} points to redeem`
+      : null;
+
+  if (problem) {
+    res.status(422).json({
+      type: 'https://tools.ietf.org/html/rfc4918#section-11.2',
+      title: 'Unprocessable Entity',
+      status: 422,
+      detail: problem,
+      maxPoints,
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+    return null;
+  }
+
+  return points;
+}
+
+/**
+ * How a stay's total splits between what is paid online at booking and
+ * what is paid at the property, under the rate plan's payment mode
+ */
+function paymentTerms(
+  totalPaise: number,
+  ratePlan: { paymentMode: PaymentMode; depositPct: number | null } | null
+) {
+  const dueNowPaise = amountDueNow(totalPaise, ratePlan);
+
+  return {
+    mode: ratePlan?.paymentMode ?? 'FULL',
+    dueNowPaise,
+    dueAtPropertyPaise: totalPaise - dueNowPaise
+  };
+}
+
+/**
+ * POST /v1/bookings/quote
+ * Price a stay, including any promo code, without creating a booking
+ */
+router.post('/quote', async (req, res) => {
+  try {
+    const data = quoteBookingSchema.parse(req.body);
+
+    const stay = await priceStayRequest(req, res, data);
+    if (!stay) {
+      return;
+    }
+
+    const points = await pointsToRedeem(req, res, data.redeemPoints, stay.pricing.totalAmount);
+    if (points === null) {
+      return;
     }
+    const pointsPaise = points * POINT_VALUE_PAISE;
+
+    res.json({
+      ratePlanId: stay.ratePlan?.id ?? null,
+      checkIn: formatDate(stay.checkIn),
+      checkOut: formatDate(stay.checkOut),
+      guests: stay.guests,
+      rooms: stay.rooms.map(room => ({
+        roomTypeId: room.roomType.id,
+        roomType: room.roomType.name,
+        guests: room.guests,
+        pricing: room.pricing
+      })),
+      pricing: stay.pricing,
+      points: { redeemed: points, valuePaise: pointsPaise, maxPoints: maxRedeemablePoints(stay.pricing.totalAmount) },
+      payment: paymentTerms(stay.pricing.totalAmount - pointsPaise, stay.ratePlan)
+    });
 
-    if (roomType.capacity < data.guests) {
+  } catch (error) {
+    console.error('Booking quote error:', error);
+
+    if (error instanceof z.ZodError) {
       return res.status(400).json({
         type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
         title: 'Bad Request',
         status: 400,
-        detail: 'Room capacity exceeded',
+        detail: 'Invalid quote request',
+        errors: error.errors,
         instance: req.url,
         timestamp: new Date().toISOString(),
         requestId: req.id
       });
     }
 
-    // Calculate pricing
-    const nights = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
-    const baseAmount = roomType.baseRate * nights;
-    const serviceCharge = Math.round(baseAmount * 0.10);
-    const gstOnRoom = Math.round(baseAmount * 0.12);
-    const gstOnService = Math.round(serviceCharge * 0.18);
-    const totalAmount = baseAmount + serviceCharge + gstOnRoom + gstOnService;
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to quote booking',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * POST /v1/bookings
+ * Create a new booking with Razorpay order for the amount due now. Rate
+ * plans that take nothing online confirm the booking straight away.
+ */
+router.post('/', idempotent, async (req, res) => {
+  try {
+    const data = createBookingSchema.parse(req.body);
+
+    const stay = await priceStayRequest(req, res, data);
+    if (!stay) {
+      return;
+    }
+
+    const { checkIn, checkOut, rooms, firstRoom, guests, ratePlan, promoCode, pricing } = stay;
+
+    const points = await pointsToRedeem(req, res, data.redeemPoints, pricing.totalAmount);
+    if (points === null) {
+      return;
+    }
+    const pointsPaise = points * POINT_VALUE_PAISE;
+
+    // Points come off the total; the order is for what's left
+    const totalAmount = pricing.totalAmount - pointsPaise;
+    const payment = paymentTerms(totalAmount, ratePlan);
+    const payNow = payment.dueNowPaise > 0;
 
-    // Create booking
-    const booking = await prisma.booking.create({
-      data: {
-        roomTypeId: data.roomTypeId,
+    // Create booking and hold every room's inventory together
+    const booking = await prisma.$transaction(async (tx) => {
+      const reserved = {
+        roomTypeId: firstRoom.roomType.id,
         checkIn,
         checkOut,
-        guests: data.guests,
-        amountPaise: totalAmount,
-        guestName: data.guestName,
-        guestEmail: data.guestEmail,
-        guestPhone: data.guestPhone,
-        userId: req.user?.id, // If authenticated
+        rooms: rooms.map(room => ({ roomTypeId: room.roomType.id }))
+      };
+
+      if (promoCode) {
+        await lockPromoUsage(tx, promoCode, { userId: req.user?.id, guestEmail: data.guestEmail });
       }
-    });
 
-    // Create Razorpay order
-    const razorpayOrder = await createOrder(totalAmount, booking.id);
-    
-    // Update booking with Razorpay order ID
-    await prisma.booking.update({
-      where: { id: booking.id },
-      data: { razorpayOrderId: razorpayOrder.id }
+      const held = await holdRooms(tx, reserved);
+      if (!held) {
+        return null;
+      }
+
+      // Nothing to pay online, so the rooms are booked now
+      if (!payNow) {
+        await confirmRooms(tx, reserved);
+      }
+
+      const created = await tx.booking.create({
+        data: {
+          roomTypeId: firstRoom.roomType.id,
+          ratePlanId: ratePlan?.id ?? null,
+          checkIn,
+          checkOut,
+          guests,
+          amountPaise: totalAmount,
+          pointsRedeemed: points,
+          pointsPaise,
+          paymentMode: payment.mode,
+          dueNowPaise: payment.dueNowPaise,
+          pricing: pricing as unknown as Prisma.InputJsonObject,
+          guestName: data.guestName,
+          guestEmail: data.guestEmail,
+          guestPhone: data.guestPhone ?? null,
+          status: payNow ? 'PENDING' : 'CONFIRMED',
+          holdExpiresAt: payNow ? holdExpiresAt() : null,
+          ...(req.user ? { userId: req.user.id } : {}), // If authenticated
+          rooms: {
+            create: rooms.map(room => ({
+              roomTypeId: room.roomType.id,
+              guests: room.guests,
+              amountPaise: room.pricing.totalAmount,
+              pricing: room.pricing as unknown as Prisma.InputJsonObject
+            }))
+          },
+          ...(promoCode ? {
+            promoRedemption: {
+              create: {
+                promoCodeId: promoCode.id,
+                userId: req.user?.id ?? null,
+                guestEmail: data.guestEmail.toLowerCase(),
+                discountPaise: pricing.promoDiscount
+              }
+            }
+          } : {})
+        }
+      });
+
+      // Held until the booking is paid, or spent now if nothing is due online
+      if (created.userId && points > 0 && !await takePoints(tx, { ...created, userId: created.userId }, payNow ? 'HOLD' : 'REDEEM')) {
+        throw new PointsUnavailableError();
+      }
+
+      await recordTransition(
+        tx,
+        created.id,
+        null,
+        created.status,
+        requestActor(req.user),
+        payNow ? 'Awaiting payment' : 'Nothing due online'
+      );
+
+      return created;
     });
 
-    res.status(201).json({
-      bookingId: booking.id,
-      razorpay: {
+    if (!booking) {
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: 'Not enough rooms are available for the selected dates',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    let razorpay = null;
+    if (payNow) {
+      // Create Razorpay order
+      const razorpayOrder = await paymentProvider.createOrder(payment.dueNowPaise, booking.id);
+
+      // Update booking with Razorpay order ID
+      await prisma.booking.update({
+        where: { id: booking.id },
+        data: { razorpayOrderId: razorpayOrder.id }
+      });
+      await recordOrder({ bookingId: booking.id, purpose: 'BOOKING', order: razorpayOrder });
+
+      razorpay = {
         orderId: razorpayOrder.id,
-        keyId: getRazorpayKeyId(),
-        amount: totalAmount,
+        keyId: paymentProvider.getKeyId(),
+        provider: paymentProvider.name,
+        amount: payment.dueNowPaise,
         currency: 'INR'
-      },
+      };
+    } else {
+      console.log(`✅ Booking ${booking.id} confirmed to pay at the property`);
+      console.log(`📧 Confirmation email should be sent to ${booking.guestEmail}`);
+    }
+
+    res.status(201).json({
+      bookingId: booking.id,
+      status: booking.status,
+      razorpay,
+      payment,
       booking: {
         id: booking.id,
-        roomType: roomType.name,
+        roomType: describeRooms(rooms),
+        ratePlan: ratePlan ? { id: ratePlan.id, name: ratePlan.name, refundable: ratePlan.refundable } : null,
+        rooms: rooms.map(room => ({
+          roomTypeId: room.roomType.id,
+          roomType: room.roomType.name,
+          guests: room.guests,
+          pricing: room.pricing
+        })),
         checkIn: checkIn.toISOString().split('T')[0],
         checkOut: checkOut.toISOString().split('T')[0],
-        guests: data.guests,
-        nights,
-        pricing: {
-          baseAmount,
-          serviceCharge,
-          gstOnRoom,
-          gstOnService,
-          totalAmount
-        }
+        guests,
+        nights: pricing.nights,
+        pricing,
+        pointsRedeemed: points,
+        pointsPaise,
+        amountPaise: totalAmount,
+        holdExpiresAt: booking.holdExpiresAt?.toISOString()
       }
     });
 
@@ -143,6 +630,19 @@ router.post('/', async (req, res) => {
       });
     }
 
+    // The points were spent, or the promo code used up, by another booking since they were checked
+    if (error instanceof PointsUnavailableError || error instanceof PromoUnavailableError) {
+      return res.status(422).json({
+        type: 'https://tools.ietf.org/html/rfc4918#section-11.2',
+        title: 'Unprocessable Entity',
+        status: 422,
+        detail: error.message,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
     res.status(500).json({
       type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
       title: 'Internal Server Error',
@@ -156,18 +656,168 @@ router.post('/', async (req, res) => {
 });
 
 /**
- * POST /v1/bookings/:id/cancel
- * Cancel a booking
+ * Load a booking the caller may manage: its signed-in owner, staff, or anyone
+ * with the booking reference and guest email. Sends a 404 (so references
+ * can't be probed) and returns null otherwise.
+ */
+async function findManagedBooking(
+  req: Request,
+  res: Response,
+  bookingId: string,
+  email: string | undefined
+): Promise<ManagedBooking | null> {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: managedBookingInclude
+  });
+
+  const isOwner = Boolean(booking?.userId && req.user?.id === booking.userId);
+  const isStaff = Boolean(req.user && ['ADMIN', 'STAFF'].includes(req.user.role));
+  const emailMatches = Boolean(email && booking?.guestEmail?.toLowerCase() === email.toLowerCase());
+
+  if (!booking || !(isOwner || isStaff || emailMatches)) {
+    res.status(404).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Booking not found',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+    return null;
+  }
+
+  return booking;
+}
+
+/**
+ * The stay a booking currently covers, as recorded in revision history.
+ * Bookings made before room lines existed are treated as a single room.
  */
-router.post('/:id/cancel', async (req, res) => {
+function stayOf(booking: ManagedBooking) {
+  const rooms = booking.rooms.length > 0
+    ? booking.rooms.map(room => ({ roomTypeId: room.roomTypeId, guests: room.guests }))
+    : [{ roomTypeId: booking.roomTypeId, guests: booking.guests }];
+
+  return {
+    checkIn: formatDate(booking.checkIn),
+    checkOut: formatDate(booking.checkOut),
+    guests: booking.guests,
+    rooms,
+    amountPaise: booking.amountPaise
+  };
+}
+
+/**
+ * Booking details shown on the guest's manage booking page
+ */
+function summarizeBooking(booking: ManagedBooking) {
+  const rooms = booking.rooms.length > 0
+    ? booking.rooms
+    : [{ roomTypeId: booking.roomTypeId, roomType: booking.roomType, guests: booking.guests, pricing: booking.pricing }];
+
+  return {
+    id: booking.id,
+    status: booking.status,
+    roomType: describeRooms(rooms),
+    ratePlan: booking.ratePlan
+      ? { id: booking.ratePlan.id, name: booking.ratePlan.name, refundable: booking.ratePlan.refundable }
+      : null,
+    rooms: rooms.map(room => ({
+      roomTypeId: room.roomTypeId,
+      roomType: room.roomType.name,
+      guests: room.guests,
+      pricing: room.pricing
+    })),
+    checkIn: formatDate(booking.checkIn),
+    checkOut: formatDate(booking.checkOut),
+    guests: booking.guests,
+    nights: calculateNights(booking.checkIn, booking.checkOut),
+    amountPaise: booking.amountPaise,
+    pointsRedeemed: booking.pointsRedeemed,
+    pointsPaise: booking.pointsPaise,
+    paymentMode: booking.paymentMode,
+    dueNowPaise: booking.dueNowPaise ?? booking.amountPaise,
+    pricing: booking.pricing,
+    guestName: booking.guestName,
+    guestEmail: booking.guestEmail,
+    revisions: booking.revisions,
+    refunds: booking.refunds.map(refund => ({
+      id: refund.id,
+      reason: refund.reason,
+      amountPaise: refund.amountPaise,
+      status: refund.status,
+      createdAt: refund.createdAt
+    })),
+    balance: bookingBalance(booking, booking.payments, booking.refunds)
+  };
+}
+
+/**
+ * A refund as reported back to the guest who triggered it
+ */
+function summarizeRefund(refund: Refund) {
+  return { id: refund.id, amount: refund.amountPaise, status: refund.status };
+}
+
+/**
+ * GET /v1/bookings/:id
+ * Look up a booking to manage it. Guests who aren't signed in pass ?email=
+ */
+router.get('/:id', async (req, res) => {
   try {
-    const bookingId = req.params.id;
+    const email = typeof req.query.email === 'string' ? req.query.email : undefined;
+
+    const booking = await findManagedBooking(req, res, req.params.id, email);
+    if (!booking) {
+      return;
+    }
+
+    res.json({ booking: summarizeBooking(booking) });
+
+  } catch (error) {
+    console.error('Get booking error:', error);
     
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to get booking',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * POST /v1/bookings/:id/verify-payment
+ * Confirm a payment from the Razorpay checkout handler, without waiting for
+ * the webhook. Either one may confirm the booking; both are idempotent.
+ */
+router.post('/:id/verify-payment', async (req, res) => {
+  try {
+    const data = verifyPaymentSchema.parse(req.body);
+
+    if (!paymentProvider.verifyPaymentSignature(data.razorpayOrderId, data.razorpayPaymentId, data.razorpaySignature)) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid payment signature',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
     const booking = await prisma.booking.findUnique({
-      where: { id: bookingId }
+      where: { id: req.params.id }
     });
 
-    if (!booking) {
+    // The signature only vouches for the order, so it must be this booking's
+    if (!booking || booking.razorpayOrderId !== data.razorpayOrderId) {
       return res.status(404).json({
         type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
         title: 'Not Found',
@@ -179,52 +829,62 @@ router.post('/:id/cancel', async (req, res) => {
       });
     }
 
-    if (booking.status === 'CANCELLED') {
-      return res.status(400).json({
-        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
-        title: 'Bad Request',
-        status: 400,
-        detail: 'Booking already cancelled',
+    const order = await prisma.payment.findFirst({
+      where: { razorpayOrderId: data.razorpayOrderId }
+    });
+    await recordPaymentAttempt({
+      id: data.razorpayPaymentId,
+      order_id: data.razorpayOrderId,
+      amount: order?.amountPaise ?? booking.amountPaise,
+      status: 'captured'
+    }, 'CAPTURED');
+
+    const confirmation = await confirmBookingPayment(booking.id, data.razorpayPaymentId);
+
+    if (confirmation === 'NO_INVENTORY' || confirmation === 'NOT_PAYABLE') {
+      const refund = await refundUnconfirmedPayment(booking.id, data.razorpayPaymentId);
+      console.warn(`⚠️  Payment ${data.razorpayPaymentId} verified for booking ${booking.id} that can no longer be confirmed (${confirmation}) - refund ${refund ? `${refund.id} ${refund.status}` : 'already recorded'}`);
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: confirmation === 'NO_INVENTORY'
+          ? 'Your booking expired and the rooms are no longer available. Your payment will be refunded.'
+          : 'This booking can no longer be paid for. Your payment will be refunded.',
         instance: req.url,
         timestamp: new Date().toISOString(),
         requestId: req.id
       });
     }
 
-    // Simple cancellation policy: free cancellation 24 hours before check-in
-    const now = new Date();
-    const checkIn = new Date(booking.checkIn);
-    const hoursUntilCheckIn = (checkIn.getTime() - now.getTime()) / (1000 * 60 * 60);
-    
-    let refundAmount = 0;
-    if (hoursUntilCheckIn > 24) {
-      refundAmount = booking.amountPaise; // Full refund
-    } else if (hoursUntilCheckIn > 0) {
-      refundAmount = Math.round(booking.amountPaise * 0.5); // 50% refund
-    }
-    // No refund for same-day or past check-in
-
-    // Update booking status
-    await prisma.booking.update({
-      where: { id: bookingId },
-      data: { status: 'CANCELLED' }
+    const confirmed = await prisma.booking.findUniqueOrThrow({
+      where: { id: booking.id },
+      include: managedBookingInclude
     });
 
-    res.json({
-      bookingId,
-      status: 'CANCELLED',
-      refundAmount,
-      refundPolicy: hoursUntilCheckIn > 24 ? 'full' : hoursUntilCheckIn > 0 ? 'partial' : 'none'
-    });
+    res.json({ status: confirmed.status, booking: summarizeBooking(confirmed) });
 
   } catch (error) {
-    console.error('Booking cancellation error:', error);
+    console.error('Payment verification error:', error);
     
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid payment verification data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
     res.status(500).json({
       type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
       title: 'Internal Server Error',
       status: 500,
-      detail: 'Failed to cancel booking',
+      detail: 'Failed to verify payment',
       instance: req.url,
       timestamp: new Date().toISOString(),
       requestId: req.id
@@ -233,104 +893,348 @@ router.post('/:id/cancel', async (req, res) => {
 });
 
 /**
- * POST /v1/webhooks/razorpay
- * Handle Razorpay webhook events
+ * POST /v1/bookings/:id/modify
+ * Change a paid booking's dates, room types or guests. The stay is repriced
+ * and inventory moved to the new nights; a higher total creates a top-up
+ * Razorpay order and a lower one refunds the difference. Deposit and
+ * pay-at-property bookings settle the difference at the property instead,
+ * and are only refunded what they paid beyond the new total.
  */
-router.post('/webhooks/razorpay', async (req, res) => {
+router.post('/:id/modify', idempotent, async (req, res) => {
   try {
-    const signature = req.headers['x-razorpay-signature'] as string;
-    const payload = JSON.stringify(req.body);
-    
-    // Verify webhook signature
-    if (!verifyWebhookSignature(payload, signature)) {
+    const data = modifyBookingSchema.parse(req.body);
+
+    const booking = await findManagedBooking(req, res, req.params.id, data.email);
+    if (!booking) {
+      return;
+    }
+
+    let notModifiable = null;
+    if (booking.status !== 'CONFIRMED') {
+      notModifiable = 'Only confirmed bookings can be modified';
+    } else if (booking.ratePlan && !booking.ratePlan.refundable) {
+      notModifiable = 'Non-refundable bookings cannot be modified';
+    } else if (formatDate(booking.checkIn) <= formatDate(new Date())) {
+      notModifiable = 'Bookings cannot be modified on or after the check-in date';
+    } else if (data.checkIn && formatDate(new Date(data.checkIn)) < formatDate(new Date())) {
+      notModifiable = 'Check-in date cannot be in the past';
+    } else if (!data.rooms && (data.roomTypeId || data.guests) && booking.rooms.length > 1) {
+      notModifiable = 'Use rooms to change the rooms of a multi-room booking';
+    }
+
+    if (notModifiable) {
       return res.status(400).json({
         type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
         title: 'Bad Request',
         status: 400,
-        detail: 'Invalid webhook signature',
+        detail: notModifiable,
         instance: req.url,
         timestamp: new Date().toISOString(),
         requestId: req.id
       });
     }
 
-    const event = req.body;
-    
-    if (event.event === 'payment.captured') {
-      const payment = event.payload.payment.entity;
-      const orderId = payment.order_id;
-      
-      // Find booking by Razorpay order ID
-      const booking = await prisma.booking.findFirst({
-        where: { razorpayOrderId: orderId },
-        include: { roomType: true }
+    // Anything not being changed is kept from the current stay
+    const previous = stayOf(booking);
+    const rooms = data.rooms ?? (data.roomTypeId || data.guests
+      ? [{ roomTypeId: data.roomTypeId ?? booking.roomTypeId, guests: data.guests ?? booking.guests }]
+      : previous.rooms);
+
+    const stay = await priceStayRequest(req, res, {
+      rooms,
+      checkIn: data.checkIn ?? previous.checkIn,
+      checkOut: data.checkOut ?? previous.checkOut,
+      ...(booking.ratePlanId ? { ratePlanId: booking.ratePlanId } : {})
+    }, booking.promoRedemption?.promoCode ?? null);
+    if (!stay) {
+      return;
+    }
+
+    const current = {
+      checkIn: formatDate(stay.checkIn),
+      checkOut: formatDate(stay.checkOut),
+      guests: stay.guests,
+      rooms: stay.rooms.map(room => ({ roomTypeId: room.roomType.id, guests: room.guests })),
+      // Redeemed points stay applied to the new stay
+      amountPaise: Math.max(0, stay.pricing.totalAmount - booking.pointsPaise)
+    };
+    const priceDifference = current.amountPaise - previous.amountPaise;
+
+    if (JSON.stringify({ ...current, amountPaise: 0 }) === JSON.stringify({ ...previous, amountPaise: 0 })) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'No changes requested',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
       });
+    }
 
-      if (!booking) {
-        console.error(`Booking not found for Razorpay order: ${orderId}`);
-        return res.status(404).json({ error: 'Booking not found' });
-      }
+    const settleOnline = booking.paymentMode === 'FULL';
+    const now = new Date();
 
-      // Update booking status (idempotent)
-      if (booking.status === 'PENDING') {
-        await prisma.booking.update({
-          where: { id: booking.id },
-          data: { status: 'PAID' }
+    // Move the booked rooms to the new stay and record the revision together
+    let revision;
+    try {
+      revision = await prisma.$transaction(async (tx) => {
+        // Conditional on the booking being as it was read, so a concurrent
+        // cancellation or modification can't have its rooms moved as well
+        const { count } = await tx.booking.updateMany({
+          where: { id: booking.id, status: 'CONFIRMED', updatedAt: booking.updatedAt },
+          data: {
+            roomTypeId: stay.firstRoom.roomType.id,
+            checkIn: stay.checkIn,
+            checkOut: stay.checkOut,
+            guests: stay.guests,
+            amountPaise: current.amountPaise,
+            pricing: stay.pricing as unknown as Prisma.InputJsonObject
+          }
         });
+        if (count === 0) {
+          return null;
+        }
 
-        // Award loyalty points if user is registered
-        if (booking.userId) {
-          const pointsEarned = Math.floor(booking.amountPaise / 10000); // 1 point per ₹100
-          
-          await prisma.loyaltyLedger.create({
-            data: {
-              userId: booking.userId,
-              points: pointsEarned,
-              type: 'EARN',
-              ref: booking.id
-            }
-          });
+        await unbookRooms(tx, booking);
+        await bookRooms(tx, {
+          roomTypeId: stay.firstRoom.roomType.id,
+          checkIn: stay.checkIn,
+          checkOut: stay.checkOut,
+          rooms: current.rooms
+        });
 
-          // Update user points
-          await prisma.user.update({
-            where: { id: booking.userId },
-            data: { points: { increment: pointsEarned } }
-          });
-        }
+        await tx.bookingRoom.deleteMany({ where: { bookingId: booking.id } });
+        await tx.bookingRoom.createMany({
+          data: stay.rooms.map(room => ({
+            bookingId: booking.id,
+            roomTypeId: room.roomType.id,
+            guests: room.guests,
+            amountPaise: room.pricing.totalAmount,
+            pricing: room.pricing as unknown as Prisma.InputJsonObject
+          }))
+        });
 
-        // Update inventory (reduce available rooms)
-        const checkIn = new Date(booking.checkIn);
-        const checkOut = new Date(booking.checkOut);
-        
-        for (let d = new Date(checkIn); d < checkOut; d.setDate(d.getDate() + 1)) {
-          await prisma.inventory.updateMany({
-            where: {
-              roomTypeId: booking.roomTypeId,
-              date: new Date(d)
-            },
-            data: {
-              booked: { increment: 1 }
-            }
+        // A top-up still unpaid from an earlier change can't be paid online
+        // any more; what it was for is collected with the rest of the balance
+        await tx.bookingRevision.updateMany({
+          where: { bookingId: booking.id, topUpPaid: false, topUpExpiresAt: { gt: now } },
+          data: { topUpExpiresAt: now }
+        });
+
+        if (booking.promoRedemption) {
+          await tx.promoRedemption.update({
+            where: { bookingId: booking.id },
+            data: { discountPaise: stay.pricing.promoDiscount }
           });
         }
 
-        console.log(`✅ Booking ${booking.id} marked as PAID, inventory updated`);
-        
-        // TODO: Send confirmation email
-        console.log(`📧 Confirmation email should be sent to ${booking.guestEmail}`);
+        return tx.bookingRevision.create({
+          data: {
+            bookingId: booking.id,
+            userId: req.user?.id ?? null,
+            previous,
+            current,
+            priceDifference,
+            topUpExpiresAt: priceDifference > 0 && settleOnline ? holdExpiresAt(now) : null
+          }
+        });
+      });
+    } catch (error) {
+      if (error instanceof InventoryUnavailableError) {
+        return res.status(409).json({
+          type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+          title: 'Conflict',
+          status: 409,
+          detail: error.message,
+          instance: req.url,
+          timestamp: new Date().toISOString(),
+          requestId: req.id
+        });
       }
+      throw error;
+    }
+
+    if (!revision) {
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: 'Booking was updated by another request, please retry',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    // Collect or refund the difference
+    const { netPaidPaise } = bookingBalance(booking, booking.payments, booking.refunds);
+    const refundAmount = settleOnline ? -priceDifference : netPaidPaise - current.amountPaise;
+
+    let topUp = null;
+    let refunds: Refund[] = [];
+    if (priceDifference > 0 && settleOnline) {
+      const order = await paymentProvider.createOrder(priceDifference, revision.id);
+      await prisma.bookingRevision.update({
+        where: { id: revision.id },
+        data: { razorpayOrderId: order.id }
+      });
+      await recordOrder({ bookingId: booking.id, revisionId: revision.id, purpose: 'TOP_UP', order });
+      topUp = {
+        orderId: order.id,
+        keyId: paymentProvider.getKeyId(),
+        provider: paymentProvider.name,
+        amount: priceDifference,
+        currency: 'INR',
+        expiresAt: revision.topUpExpiresAt?.toISOString()
+      };
+    } else if (priceDifference < 0 && refundAmount > 0) {
+      refunds = await refundBooking({
+        bookingId: booking.id,
+        revisionId: revision.id,
+        amountPaise: refundAmount,
+        reason: 'MODIFICATION'
+      });
+
+      await prisma.bookingRevision.update({
+        where: { id: revision.id },
+        data: { refundAmount }
+      });
+    }
+
+    const updated = await prisma.booking.findUniqueOrThrow({
+      where: { id: booking.id },
+      include: managedBookingInclude
+    });
+
+    console.log(`✏️  Booking ${booking.id} modified (difference ₹${priceDifference / 100})`);
+
+    res.json({
+      bookingId: booking.id,
+      revisionId: revision.id,
+      priceDifference,
+      topUp,
+      refunds: refunds.map(summarizeRefund),
+      booking: summarizeBooking(updated)
+    });
+
+  } catch (error) {
+    console.error('Booking modification error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid modification data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to modify booking',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * POST /v1/bookings/:id/cancel
+ * Cancel a booking and refund a paid one under its rate plan's cancellation
+ * policy. Guests who aren't signed in as the owner pass their email.
+ */
+router.post('/:id/cancel', idempotent, async (req, res) => {
+  try {
+    const data = cancelBookingSchema.parse(req.body ?? {});
+
+    const booking = await findManagedBooking(req, res, req.params.id, data.email);
+    if (!booking) {
+      return;
     }
 
-    res.json({ status: 'ok' });
+    // e.g. already cancelled, expired, or the stay has begun
+    const blocker = transitionBlocker(booking, 'CANCELLED');
+    if (blocker) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: blocker,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    // Apply the rate plan's cancellation policy, never refunding more than was
+    // paid (e.g. an unpaid top-up); unpaid bookings have nothing to refund
+    const policy = booking.status === 'CONFIRMED'
+      ? calculateRefund(booking, booking.ratePlan)
+      : { refundAmount: 0, refundPolicy: 'none' as const };
+    const { netPaidPaise } = bookingBalance(booking, booking.payments, booking.refunds);
+    const refundAmount = Math.max(0, Math.min(policy.refundAmount, netPaidPaise));
+    const { refundPolicy } = policy;
+
+    // Cancel and free its rooms; a concurrent expiry or payment wins
+    const cancelled = await prisma.$transaction(tx =>
+      transitionBooking(tx, booking, 'CANCELLED', requestActor(req.user), { reason: data.reason })
+    );
+
+    if (!cancelled) {
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: 'Booking was updated by another request, please retry',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const refunds = refundAmount > 0
+      ? await refundBooking({ bookingId: booking.id, amountPaise: refundAmount, reason: 'CANCELLATION' })
+      : [];
+
+    console.log(`🚫 Booking ${booking.id} cancelled${data.reason ? `: ${data.reason}` : ''}`);
+
+    res.json({
+      bookingId: booking.id,
+      status: 'CANCELLED',
+      refundAmount,
+      refundPolicy,
+      refunds: refunds.map(summarizeRefund)
+    });
 
   } catch (error) {
-    console.error('Webhook processing error:', error);
+    console.error('Booking cancellation error:', error);
     
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid cancellation data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
     res.status(500).json({
       type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
       title: 'Internal Server Error',
       status: 500,
-      detail: 'Failed to process webhook',
+      detail: 'Failed to cancel booking',
       instance: req.url,
       timestamp: new Date().toISOString(),
       requestId: req.id
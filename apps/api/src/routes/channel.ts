@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { prisma } from '../lib/prisma';
 import { requireAuth, requireRole } from '../lib/auth';
+import { buildRateUpdates } from '../channel/rates';
+import { createBeds24Provider } from '../channel/providers/beds24';
 
 const router = Router();
 
@@ -190,6 +192,92 @@ router.post('/sync/push-availability', async (req, res) => {
   }
 });
 
+/**
+ * POST /v1/channel/sync/push-rates
+ * Push nightly rates from the rate calendar to an OTA
+ */
+router.post('/sync/push-rates', async (req, res) => {
+  try {
+    const { provider, ratePlanId, roomTypeId, startDate, endDate } = z.object({
+      provider: z.string().min(1),
+      ratePlanId: z.string().min(1),
+      roomTypeId: z.string().cuid().optional(),
+      startDate: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid start date'),
+      endDate: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid end date'),
+    }).parse(req.body);
+
+    const updates = await buildRateUpdates({
+      provider,
+      ratePlanId,
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+      ...(roomTypeId ? { roomTypeId } : {})
+    });
+
+    const channelProvider = provider === 'beds24' ? createBeds24Provider() : null;
+    const result = channelProvider
+      ? await channelProvider.pushRates(updates)
+      : { success: false, message: `Provider ${provider} not configured - rates not sent` };
+
+    // Log the sync operation
+    const payload = {
+      action: 'push_rates',
+      provider,
+      ratePlanId,
+      roomTypeId,
+      startDate,
+      endDate,
+      updates: updates.map(update => ({ ...update })),
+      success: result.success,
+      message: result.message,
+      timestamp: new Date().toISOString()
+    };
+
+    await prisma.providerPayload.create({
+      data: {
+        provider,
+        direction: 'push',
+        kind: 'rates',
+        payload
+      }
+    });
+
+    console.log('🔄 Rate push triggered:', { provider, ratePlanId, updates: updates.length });
+
+    res.json({
+      message: result.message,
+      result,
+      rateRecords: updates.length
+    });
+
+  } catch (error) {
+    console.error('Push rates error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid sync data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to push rates',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
 /**
  * POST /v1/channel/sync/pull-reservations
  * Manually trigger reservation pull from OTAs
@@ -0,0 +1,425 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { formatDate } from '@podnbeyond/shared';
+import { prisma } from '../lib/prisma';
+import { requireAuth, requireRole } from '../lib/auth';
+import { idempotent } from '../lib/idempotency';
+import { bookingBalance, recordPropertyPayment } from '../lib/payments';
+import { transitionBooking, transitionBlocker, requestActor } from '../lib/lifecycle';
+import { runNightAudit } from '../lib/nightAudit';
+import { evaluateTier } from '../lib/loyaltyTiers';
+import { awardStayPoints } from '../lib/earnRules';
+
+const router = Router();
+
+// Apply authentication and staff role requirement to all routes
+router.use(requireAuth);
+router.use(requireRole(['ADMIN', 'STAFF']));
+
+const frontDeskQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+    .refine((date) => !isNaN(Date.parse(date)), 'Invalid date')
+    .optional(),
+});
+
+const checkInSchema = z.object({
+  rooms: z.array(z.object({
+    id: z.string().min(1), // Booking room line
+    roomNumber: z.string().trim().min(1).max(20),
+  })),
+});
+
+const checkOutSchema = z.object({
+  // Collect whatever is still owed as part of the check-out
+  settlement: z.object({
+    method: z.enum(['CASH', 'CARD', 'UPI', 'OTHER']),
+    reference: z.string().max(100).optional(), // Receipt or card slip number
+  }).optional(),
+});
+
+const frontDeskInclude = {
+  ratePlan: { select: { name: true, noShowPolicy: true } },
+  rooms: {
+    include: { roomType: { select: { name: true } } },
+    orderBy: { createdAt: 'asc' as const }
+  },
+  user: { select: { name: true, email: true } },
+  payments: { select: { amountPaise: true, status: true } },
+  refunds: { select: { amountPaise: true, status: true } }
+};
+
+type FrontDeskBooking = Prisma.BookingGetPayload<{ include: typeof frontDeskInclude }>;
+
+function summarizeStay({ payments, refunds, ...booking }: FrontDeskBooking) {
+  return {
+    id: booking.id,
+    status: booking.status,
+    checkIn: formatDate(booking.checkIn),
+    checkOut: formatDate(booking.checkOut),
+    guests: booking.guests,
+    amountPaise: booking.amountPaise,
+    guestName: booking.guestName ?? booking.user?.name ?? null,
+    guestEmail: booking.guestEmail ?? booking.user?.email ?? null,
+    guestPhone: booking.guestPhone,
+    ratePlan: booking.ratePlan,
+    rooms: booking.rooms.map(room => ({
+      id: room.id,
+      roomTypeId: room.roomTypeId,
+      roomType: room.roomType.name,
+      guests: room.guests,
+      roomNumber: room.roomNumber
+    })),
+    balance: bookingBalance(booking, payments, refunds)
+  };
+}
+
+/**
+ * GET /v1/admin/front-desk
+ * A day's arrivals (confirmed, not yet checked in), in-house guests and
+ * departures (checked in, due out by then). Defaults to today.
+ */
+router.get('/', async (req, res) => {
+  try {
+    const query = frontDeskQuerySchema.parse(req.query);
+    const date = new Date(`${query.date ?? formatDate(new Date())}T00:00:00.000Z`);
+
+    const [arrivals, inHouse] = await Promise.all([
+      prisma.booking.findMany({
+        where: { status: 'CONFIRMED', checkIn: { lte: date }, checkOut: { gt: date } },
+        include: frontDeskInclude,
+        orderBy: { checkIn: 'asc' }
+      }),
+      prisma.booking.findMany({
+        where: { status: 'CHECKED_IN' },
+        include: frontDeskInclude,
+        orderBy: { checkOut: 'asc' }
+      })
+    ]);
+
+    res.json({
+      date: formatDate(date),
+      arrivals: arrivals.map(summarizeStay),
+      inHouse: inHouse.filter(booking => booking.checkOut > date).map(summarizeStay),
+      departures: inHouse.filter(booking => booking.checkOut <= date).map(summarizeStay)
+    });
+
+  } catch (error) {
+    console.error('Get front desk error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid date',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to get front desk',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * POST /v1/admin/front-desk/bookings/:id/check-in
+ * Check a guest in, assigning a room number to every room of the booking.
+ * A room can't be given to two checked-in bookings at once.
+ */
+router.post('/bookings/:id/check-in', idempotent, async (req, res) => {
+  try {
+    const data = checkInSchema.parse(req.body);
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: req.params.id },
+      include: frontDeskInclude
+    });
+
+    if (!booking) {
+      return res.status(404).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
+        title: 'Not Found',
+        status: 404,
+        detail: 'Booking not found',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const blocker = transitionBlocker(booking, 'CHECKED_IN');
+    if (blocker) {
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: blocker,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const assigned = new Map(data.rooms.map(room => [room.id, room.roomNumber]));
+    const roomNumbers = [...assigned.values()];
+    const complete = data.rooms.length === booking.rooms.length &&
+      booking.rooms.every(room => assigned.has(room.id)) &&
+      new Set(roomNumbers).size === roomNumbers.length;
+
+    if (!complete) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Assign a different room number to every room of the booking',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const conflict = await prisma.$transaction(async (tx) => {
+      // Rooms have no rows of their own, so concurrent check-ins to the same
+      // room number are serialised on a lock per number, taken in order
+      for (const roomNumber of [...roomNumbers].sort()) {
+        await tx.$queryRaw`SELECT pg_advisory_xact_lock(hashtext(${`room:${roomNumber}`}))::text`;
+      }
+
+      const occupied = await tx.bookingRoom.findFirst({
+        where: { roomNumber: { in: roomNumbers }, booking: { status: 'CHECKED_IN' } }
+      });
+      if (occupied) {
+        return `Room ${occupied.roomNumber} is occupied by another guest`;
+      }
+
+      const checkedIn = await transitionBooking(tx, booking, 'CHECKED_IN', requestActor(req.user), {
+        reason: `Rooms ${roomNumbers.join(', ')}`
+      });
+      if (!checkedIn) {
+        return 'Booking was updated by another request, please retry';
+      }
+
+      for (const [id, roomNumber] of assigned) {
+        await tx.bookingRoom.update({ where: { id }, data: { roomNumber } });
+      }
+
+      return null;
+    });
+
+    if (conflict) {
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: conflict,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    console.log(`🛎️  Booking ${booking.id} checked in to room(s) ${roomNumbers.join(', ')}`);
+
+    const checkedIn = await prisma.booking.findUniqueOrThrow({
+      where: { id: booking.id },
+      include: frontDeskInclude
+    });
+
+    res.json({ booking: summarizeStay(checkedIn) });
+
+  } catch (error) {
+    console.error('Check-in error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid check-in data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to check in',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * POST /v1/admin/front-desk/bookings/:id/check-out
+ * Check a guest out. Anything still owed must be settled first, either
+ * beforehand with collect-balance or here by passing a settlement.
+ */
+router.post('/bookings/:id/check-out', idempotent, async (req, res) => {
+  try {
+    const data = checkOutSchema.parse(req.body ?? {});
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: req.params.id },
+      include: frontDeskInclude
+    });
+
+    if (!booking) {
+      return res.status(404).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
+        title: 'Not Found',
+        status: 404,
+        detail: 'Booking not found',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const blocker = transitionBlocker(booking, 'CHECKED_OUT');
+    if (blocker) {
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: blocker,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const { outstandingPaise } = bookingBalance(booking, booking.payments, booking.refunds);
+    if (outstandingPaise > 0 && !data.settlement) {
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: `Settle the outstanding balance of ₹${outstandingPaise / 100} before check-out`,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const checkedOut = await prisma.$transaction(async (tx) => {
+      const moved = await transitionBooking(tx, booking, 'CHECKED_OUT', requestActor(req.user));
+      if (moved && outstandingPaise > 0 && data.settlement) {
+        await recordPropertyPayment({
+          bookingId: booking.id,
+          amountPaise: outstandingPaise,
+          method: data.settlement.method,
+          reference: data.settlement.reference,
+          recordedBy: req.user?.id ?? null
+        }, tx);
+      }
+      // Points are earned on the completed stay, once
+      const earned = moved && booking.userId ? await awardStayPoints(tx, booking.userId, booking) : null;
+      return moved ? { earned } : null;
+    });
+
+    if (!checkedOut) {
+      return res.status(409).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.8',
+        title: 'Conflict',
+        status: 409,
+        detail: 'Booking was updated by another request, please retry',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    if (outstandingPaise > 0 && data.settlement) {
+      console.log(`💰 ₹${outstandingPaise / 100} (${data.settlement.method}) settled at check-out for booking ${booking.id}`);
+    }
+    console.log(`👋 Booking ${booking.id} checked out`);
+    if (checkedOut.earned && checkedOut.earned.points > 0) {
+      console.log(`⭐ ${checkedOut.earned.points} points awarded for booking ${booking.id}`);
+    }
+
+    // The completed stay may move the guest up a loyalty tier
+    if (booking.userId) {
+      evaluateTier(booking.userId).catch(error => {
+        console.error(`❌ Tier evaluation failed for user ${booking.userId}:`, error);
+      });
+    }
+
+    const departed = await prisma.booking.findUniqueOrThrow({
+      where: { id: booking.id },
+      include: frontDeskInclude
+    });
+
+    res.json({ booking: summarizeStay(departed) });
+
+  } catch (error) {
+    console.error('Check-out error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid check-out data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to check out',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+/**
+ * POST /v1/admin/front-desk/night-audit
+ * Run the night audit now rather than waiting for the job, marking
+ * unarrived bookings from past days as no-shows
+ */
+router.post('/night-audit', async (req, res) => {
+  try {
+    const noShows = await runNightAudit();
+
+    res.json({ noShows });
+
+  } catch (error) {
+    console.error('Night audit error:', error);
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to run night audit',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+export { router as frontDeskRouter };
\ No newline at end of file
@@ -1,10 +1,18 @@
 import { Router } from 'express';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { requireAuth } from '../lib/auth';
+import { idempotent } from '../lib/idempotency';
+import { loadTiers, nextTier, qualifyingTier, tierMetrics } from '../lib/loyaltyTiers';
+import { env } from '../lib/env';
+import { POINT_VALUE_PAISE } from '../lib/redemption';
+import { consumeLots, expiringPoints } from '../lib/pointsLots';
 
 const router = Router();
 
+const EXPIRING_WITHIN_DAYS = 90;
+
 // Apply authentication to all routes
 router.use(requireAuth);
 
@@ -24,7 +32,9 @@ router.get('/me', async (req, res) => {
         name: true,
         email: true,
         points: true,
-        tier: true
+        pointsOwed: true,
+        tier: true,
+        tierGraceUntil: true
       }
     });
 
@@ -47,13 +57,20 @@ router.get('/me', async (req, res) => {
       take: 10
     });
 
-    // Calculate tier benefits
-    const tierBenefits = {
-      BRONZE: { multiplier: 1, perks: ['Basic support'] },
-      SILVER: { multiplier: 1.2, perks: ['Priority support', 'Late checkout'] },
-      GOLD: { multiplier: 1.5, perks: ['Priority support', 'Late checkout', 'Room upgrade'] },
-      PLATINUM: { multiplier: 2, perks: ['Dedicated support', 'Late checkout', 'Room upgrade', 'Complimentary breakfast'] }
-    };
+    const [tiers, metrics, tierHistory, expiring] = await Promise.all([
+      loadTiers(),
+      tierMetrics(userId),
+      prisma.loyaltyTierChange.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: 10
+      }),
+      expiringPoints(userId, EXPIRING_WITHIN_DAYS)
+    ]);
+
+    // Members on a tier that no longer exists are shown the one they qualify for
+    const tier = tiers.find(candidate => candidate.code === user.tier) ?? qualifyingTier(tiers, metrics);
+    const next = tier ? nextTier(tiers, tier) : null;
 
     res.json({
       user: {
@@ -61,20 +78,49 @@ router.get('/me', async (req, res) => {
         name: user.name,
         email: user.email,
         points: user.points,
+        pointsOwed: user.pointsOwed,
+        expiringPoints: expiring,
         tier: user.tier,
-        benefits: tierBenefits[user.tier as keyof typeof tierBenefits] || tierBenefits.BRONZE
+        benefits: {
+          multiplier: tier?.multiplier ?? 1,
+          perks: tier?.perks ?? []
+        }
+      },
+      tierStatus: {
+        code: tier?.code ?? user.tier,
+        name: tier?.name ?? user.tier,
+        graceUntil: user.tierGraceUntil,
+        qualifying: metrics,
+        nextTier: next && {
+          code: next.code,
+          name: next.name,
+          minPoints: next.minPoints,
+          minNights: next.minNights,
+          minSpendPaise: next.minSpendPaise
+        }
       },
+      tierHistory: tierHistory.map(change => ({
+        id: change.id,
+        fromTier: change.fromTier,
+        toTier: change.toTier,
+        reason: change.reason,
+        createdAt: change.createdAt
+      })),
       recentTransactions: recentTransactions.map(tx => ({
         id: tx.id,
         points: tx.points,
         type: tx.type,
         ref: tx.ref,
+        breakdown: tx.breakdown,
+        reversalOf: tx.reversalOf,
+        reason: tx.reason,
+        lotUsage: tx.lotUsage,
         createdAt: tx.createdAt
       })),
       pointsValue: {
         currency: 'INR',
-        rate: 1, // 1 point = ₹1
-        description: 'Each point is worth ₹1 when redeemed'
+        rate: POINT_VALUE_PAISE / 100, // Rupees per point
+        description: `Each point is worth ₹${POINT_VALUE_PAISE / 100} off a booking at checkout, up to ${env.LOYALTY_MAX_REDEEM_POINTS} points per booking`
       }
     });
 
@@ -95,36 +141,50 @@ router.get('/me', async (req, res) => {
 
 /**
  * POST /v1/loyalty/redeem
- * Redeem loyalty points (for future use in booking flow)
+ * Redeem loyalty points outside a booking.
+ *
+ * Deprecated: points go towards a booking at checkout (redeemPoints on
+ * POST /v1/bookings), which holds them until it's paid and takes them off
+ * the price. Kept for existing clients; debits the balance and points lots
+ * like any other redemption.
  */
-router.post('/redeem', async (req, res) => {
+router.post('/redeem', idempotent, async (req, res) => {
+  res.setHeader('Deprecation', 'true');
+
   try {
     const { points, bookingId } = z.object({
-      points: z.number().min(1),
+      points: z.number().int().min(1),
       bookingId: z.string().cuid().optional()
     }).parse(req.body);
 
     const userId = req.user!.id;
-    
-    // Get user's current points
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { points: true }
-    });
 
-    if (!user) {
-      return res.status(404).json({
-        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
-        title: 'Not Found',
-        status: 404,
-        detail: 'User not found',
-        instance: req.url,
-        timestamp: new Date().toISOString(),
-        requestId: req.id
+    // Conditional on the balance, so the same points can't be redeemed twice
+    const remainingPoints = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.user.updateMany({
+        where: { id: userId, points: { gte: points } },
+        data: { points: { decrement: points } }
       });
-    }
+      if (count === 0) {
+        return null;
+      }
+
+      const lotUsage = await consumeLots(tx, userId, points);
+      await tx.loyaltyLedger.create({
+        data: {
+          userId,
+          points: -points,
+          type: 'REDEEM',
+          ref: bookingId ?? null,
+          lotUsage: lotUsage as unknown as Prisma.InputJsonArray
+        }
+      });
+
+      const user = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { points: true } });
+      return user.points;
+    });
 
-    if (user.points < points) {
+    if (remainingPoints === null) {
       return res.status(400).json({
         type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
         title: 'Bad Request',
@@ -136,27 +196,11 @@ router.post('/redeem', async (req, res) => {
       });
     }
 
-    // Create redemption transaction
-    await prisma.loyaltyLedger.create({
-      data: {
-        userId,
-        points: -points, // Negative for redemption
-        type: 'REDEEM',
-        ref: bookingId
-      }
-    });
-
-    // Update user points
-    await prisma.user.update({
-      where: { id: userId },
-      data: { points: { decrement: points } }
-    });
-
     res.json({
       message: 'Points redeemed successfully',
       pointsRedeemed: points,
-      discountAmount: points, // 1 point = ₹1
-      remainingPoints: user.points - points
+      discountAmount: points * POINT_VALUE_PAISE / 100, // Rupees
+      remainingPoints
     });
 
   } catch (error) {
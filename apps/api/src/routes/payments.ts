@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { paymentProvider } from '../lib/gateway';
+import { SimulatorProvider } from '../payments/providers/simulator';
+
+const router = Router();
+
+// Validation schemas
+const simulatePaymentSchema = z.object({
+  outcome: z.enum(['success', 'failure']).default('success'),
+});
+
+/**
+ * POST /v1/payments/simulator/orders/:orderId/pay
+ * Pay a simulated order in place of the Razorpay checkout. Only available
+ * while the local payment simulator is the active provider.
+ */
+router.post('/simulator/orders/:orderId/pay', async (req, res) => {
+  try {
+    if (!(paymentProvider instanceof SimulatorProvider)) {
+      return res.status(404).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.4',
+        title: 'Not Found',
+        status: 404,
+        detail: 'The payment simulator is not enabled',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const data = simulatePaymentSchema.parse(req.body ?? {});
+    const checkout = await paymentProvider.simulatePayment(req.params.orderId, data.outcome);
+
+    if (!checkout) {
+      return res.status(402).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.2',
+        title: 'Payment Required',
+        status: 402,
+        detail: 'Payment declined by the simulator',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.json(checkout);
+
+  } catch (error) {
+    console.error('Simulated payment error:', error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid simulated payment data',
+        errors: error.errors,
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to simulate payment',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+export { router as paymentsRouter };
\ No newline at end of file
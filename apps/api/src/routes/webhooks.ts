@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { receiveRazorpayWebhook } from '../lib/webhooks';
+
+const router = Router();
+
+/**
+ * POST /v1/webhooks/razorpay
+ * Handle Razorpay webhook events. Every delivery is stored; each event ID
+ * is processed once. Failures return 500 so Razorpay retries them.
+ */
+router.post('/razorpay', async (req, res) => {
+  try {
+    // Signatures are only valid for the exact bytes Razorpay sent
+    if (!req.rawBody) {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Webhook body must be JSON',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    const rawBody = req.rawBody.toString('utf8');
+    const signature = req.headers['x-razorpay-signature'] as string | undefined;
+    const eventId = req.headers['x-razorpay-event-id'] as string | undefined;
+
+    const outcome = await receiveRazorpayWebhook(rawBody, signature, eventId);
+
+    if (outcome === 'REJECTED') {
+      return res.status(400).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.5.1',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid webhook signature',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    if (outcome === 'FAILED') {
+      return res.status(500).json({
+        type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+        title: 'Internal Server Error',
+        status: 500,
+        detail: 'Failed to process webhook',
+        instance: req.url,
+        timestamp: new Date().toISOString(),
+        requestId: req.id
+      });
+    }
+
+    res.json({ status: 'ok', outcome });
+
+  } catch (error) {
+    console.error('Webhook processing error:', error);
+
+    res.status(500).json({
+      type: 'https://tools.ietf.org/html/rfc7231#section-6.6.1',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Failed to process webhook',
+      instance: req.url,
+      timestamp: new Date().toISOString(),
+      requestId: req.id
+    });
+  }
+});
+
+export { router as webhooksRouter };
\ No newline at end of file
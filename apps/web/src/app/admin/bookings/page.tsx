@@ -0,0 +1,319 @@
+'use client';
+
+import { Fragment, useEffect, useRef, useState } from 'react';
+import { api, isRejected } from '@/lib/api';
+import { formatCurrency } from '@shared/utils/currency';
+
+interface BookingBalance {
+  paidPaise: number;
+  refundedPaise: number;
+  netPaidPaise: number;
+  outstandingPaise: number;
+  dueAtPropertyPaise: number;
+}
+
+interface AdminBooking {
+  id: string;
+  status: string;
+  checkIn: string;
+  checkOut: string;
+  guests: number;
+  amountPaise: number;
+  guestName: string | null;
+  guestEmail: string | null;
+  roomType: { name: string };
+  user: { name: string | null; email: string } | null;
+  balance: BookingBalance;
+}
+
+interface MoneyEvent {
+  kind: 'PAYMENT' | 'REFUND';
+  id: string;
+  type: string;
+  method: string | null;
+  reference: string | null;
+  amountPaise: number;
+  status: string;
+  razorpayOrderId: string | null;
+  razorpayPaymentId: string | null;
+  razorpayRefundId: string | null;
+  failureReason: string | null;
+  payload: Record<string, unknown> | null;
+  createdAt: string;
+  settledAt: string | null;
+}
+
+interface StatusChange {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  actor: 'GUEST' | 'STAFF' | 'SYSTEM';
+  actorEmail: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+const STATUSES = ['', 'PENDING', 'CONFIRMED', 'CHECKED_IN', 'CHECKED_OUT', 'NO_SHOW', 'CANCELLED', 'EXPIRED'];
+const COLLECTABLE_STATUSES = ['CONFIRMED', 'CHECKED_IN', 'CHECKED_OUT', 'NO_SHOW'];
+const COLLECT_METHODS = ['CASH', 'CARD', 'UPI', 'OTHER'];
+
+export default function AdminBookingsPage() {
+  const [bookings, setBookings] = useState<AdminBooking[]>([]);
+  const [status, setStatus] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [timeline, setTimeline] = useState<MoneyEvent[]>([]);
+  const [history, setHistory] = useState<StatusChange[]>([]);
+
+  const [collectAmount, setCollectAmount] = useState('');
+  const [collectMethod, setCollectMethod] = useState('CASH');
+  const [collectReference, setCollectReference] = useState('');
+  const [collecting, setCollecting] = useState(false);
+  const collectKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    loadBookings();
+  }, [status]);
+
+  useEffect(() => {
+    collectKey.current = null;
+  }, [collectAmount, collectMethod, collectReference, selectedId]);
+
+  const loadBookings = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response: { bookings: AdminBooking[] } = await api.get(
+        `/v1/admin/bookings${status ? `?status=${status}` : ''}`
+      );
+      setBookings(response.bookings);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load bookings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleTimeline = async (bookingId: string) => {
+    if (selectedId === bookingId) {
+      setSelectedId(null);
+      return;
+    }
+
+    try {
+      await loadTimeline(bookingId);
+      setSelectedId(bookingId);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load payments');
+    }
+  };
+
+  const loadTimeline = async (bookingId: string) => {
+    const [payments, transitions] = await Promise.all([
+      api.get<{ timeline: MoneyEvent[] }>(`/v1/admin/bookings/${bookingId}/payments`),
+      api.get<{ transitions: StatusChange[] }>(`/v1/admin/bookings/${bookingId}/transitions`),
+    ]);
+    setTimeline(payments.timeline);
+    setHistory(transitions.transitions);
+  };
+
+  // Record the balance taken at the front desk, e.g. at check-in
+  const handleCollect = async (booking: AdminBooking) => {
+    setCollecting(true);
+    setError(null);
+    // A retry after a timeout must not record the cash twice
+    collectKey.current ??= crypto.randomUUID();
+
+    try {
+      await api.post(`/v1/admin/bookings/${booking.id}/collect-balance`, {
+        amountPaise: Math.round(Number(collectAmount) * 100),
+        method: collectMethod,
+        reference: collectReference || undefined,
+      }, { 'Idempotency-Key': collectKey.current });
+      collectKey.current = null;
+      setCollectAmount('');
+      setCollectReference('');
+      await Promise.all([loadBookings(), loadTimeline(booking.id)]);
+    } catch (err: any) {
+      if (isRejected(err)) {
+        collectKey.current = null;
+      }
+      setError(err.message || 'Failed to record payment');
+    } finally {
+      setCollecting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Bookings</h1>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          className="input w-48"
+        >
+          {STATUSES.map((option) => (
+            <option key={option} value={option}>
+              {option || 'All statuses'}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-4 py-3">Guest</th>
+              <th className="px-4 py-3">Stay</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3 text-right">Total</th>
+              <th className="px-4 py-3 text-right">Paid</th>
+              <th className="px-4 py-3 text-right">Outstanding</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-gray-500">Loading...</td>
+              </tr>
+            ) : bookings.map((booking) => (
+              <Fragment key={booking.id}>
+                <tr className="border-t border-gray-200">
+                  <td className="px-4 py-3">
+                    <div className="font-medium">{booking.guestName || booking.user?.name || 'Guest'}</div>
+                    <div className="text-gray-500">{booking.guestEmail || booking.user?.email}</div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div>{booking.roomType.name}</div>
+                    <div className="text-gray-500">
+                      {booking.checkIn.slice(0, 10)} to {booking.checkOut.slice(0, 10)}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">{booking.status}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(booking.amountPaise)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(booking.balance.netPaidPaise)}</td>
+                  <td className={`px-4 py-3 text-right ${booking.balance.outstandingPaise > 0 ? 'text-red-700' : ''}`}>
+                    {formatCurrency(booking.balance.outstandingPaise)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => toggleTimeline(booking.id)}
+                      className="text-primary-600 hover:text-primary-700"
+                    >
+                      {selectedId === booking.id ? 'Hide' : 'Payments'}
+                    </button>
+                  </td>
+                </tr>
+
+                {/* Money Timeline */}
+                {selectedId === booking.id && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={7} className="px-4 py-3">
+                      {timeline.length === 0 ? (
+                        <p className="text-gray-500">No payments recorded</p>
+                      ) : (
+                        <div className="space-y-2">
+                          {timeline.map((event) => (
+                            <div key={event.id} className="flex justify-between">
+                              <div>
+                                <span className="font-medium">
+                                  {event.kind === 'PAYMENT' ? 'Payment' : 'Refund'} ({event.type.replace('_', ' ').toLowerCase()})
+                                </span>{' '}
+                                <span className="text-gray-500">
+                                  {new Date(event.createdAt).toLocaleString('en-IN')} •{' '}
+                                  {event.razorpayRefundId || event.razorpayPaymentId || event.razorpayOrderId ||
+                                    [event.method, event.reference].filter(Boolean).join(' ')}
+                                </span>
+                                {event.failureReason && (
+                                  <div className="text-red-700">{event.failureReason}</div>
+                                )}
+                              </div>
+                              <div className="text-right">
+                                <div>{event.kind === 'REFUND' ? '−' : ''}{formatCurrency(event.amountPaise)}</div>
+                                <div className="text-gray-500">{event.status}</div>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {COLLECTABLE_STATUSES.includes(booking.status) && booking.balance.outstandingPaise > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 border-t border-gray-200 mt-3 pt-3">
+                          <span className="font-medium">Collect balance:</span>
+                          <input
+                            type="number"
+                            min="1"
+                            step="0.01"
+                            value={collectAmount}
+                            onChange={(e) => setCollectAmount(e.target.value)}
+                            placeholder={String(booking.balance.outstandingPaise / 100)}
+                            className="input w-32"
+                            aria-label="Amount in rupees"
+                          />
+                          <select
+                            value={collectMethod}
+                            onChange={(e) => setCollectMethod(e.target.value)}
+                            className="input w-28"
+                          >
+                            {COLLECT_METHODS.map((method) => (
+                              <option key={method} value={method}>{method}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="text"
+                            value={collectReference}
+                            onChange={(e) => setCollectReference(e.target.value)}
+                            placeholder="Receipt / slip no."
+                            className="input w-40"
+                          />
+                          <button
+                            onClick={() => handleCollect(booking)}
+                            disabled={collecting || !(Number(collectAmount) > 0)}
+                            className="btn-primary"
+                          >
+                            {collecting ? 'Recording...' : 'Record'}
+                          </button>
+                        </div>
+                      )}
+
+                      {/* Status History */}
+                      {history.length > 0 && (
+                        <div className="space-y-1 border-t border-gray-200 mt-3 pt-3">
+                          <div className="font-medium">Status history</div>
+                          {history.map((change) => (
+                            <div key={change.id} className="flex justify-between">
+                              <div>
+                                {change.fromStatus ? `${change.fromStatus} → ${change.toStatus}` : `Created ${change.toStatus}`}
+                                {change.reason && <span className="text-gray-500"> • {change.reason}</span>}
+                              </div>
+                              <div className="text-right text-gray-500">
+                                {change.actorEmail || change.actor.toLowerCase()} •{' '}
+                                {new Date(change.createdAt).toLocaleString('en-IN')}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -170,6 +170,20 @@ export default function AdminDashboard() {
           </div>
         </Link>
 
+        <Link href="/admin/front-desk" className="block">
+          <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow">
+            <div className="flex items-center mb-4">
+              <div className="p-2 bg-orange-100 rounded-lg">
+                <svg className="w-6 h-6 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 16l-4-4m0 0l4-4m-4 4h14m-5 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h7a3 3 0 013 3v1" />
+                </svg>
+              </div>
+              <h3 className="ml-3 text-lg font-semibold text-gray-900">Front Desk</h3>
+            </div>
+            <p className="text-gray-600">Check guests in and out</p>
+          </div>
+        </Link>
+
         <Link href="/admin/rates" className="block">
           <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow">
             <div className="flex items-center mb-4">
@@ -211,6 +225,20 @@ export default function AdminDashboard() {
             <p className="text-gray-600">View analytics and generate reports</p>
           </div>
         </Link>
+
+        <Link href="/admin/reconciliation" className="block">
+          <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow">
+            <div className="flex items-center mb-4">
+              <div className="p-2 bg-teal-100 rounded-lg">
+                <svg className="w-6 h-6 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                </svg>
+              </div>
+              <h3 className="ml-3 text-lg font-semibold text-gray-900">Reconciliation</h3>
+            </div>
+            <p className="text-gray-600">Match payments with gateway settlements</p>
+          </div>
+        </Link>
       </div>
     </div>
   );
@@ -0,0 +1,248 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { api, isRejected } from '@/lib/api';
+import { formatCurrency } from '@shared/utils/currency';
+import type { FrontDeskResponse, FrontDeskStay } from '@shared/types/booking';
+
+type Tab = 'arrivals' | 'inHouse' | 'departures';
+
+const TABS: Array<{ id: Tab; label: string }> = [
+  { id: 'arrivals', label: 'Arrivals' },
+  { id: 'inHouse', label: 'In house' },
+  { id: 'departures', label: 'Departures' },
+];
+
+const SETTLEMENT_METHODS = ['CASH', 'CARD', 'UPI', 'OTHER'];
+
+function today(): string {
+  return new Date().toISOString().split('T')[0]!;
+}
+
+export default function AdminFrontDeskPage() {
+  const [date, setDate] = useState(today());
+  const [tab, setTab] = useState<Tab>('arrivals');
+  const [desk, setDesk] = useState<FrontDeskResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Room numbers typed in per booking room line
+  const [roomNumbers, setRoomNumbers] = useState<Record<string, string>>({});
+  const [settlementMethod, setSettlementMethod] = useState('CASH');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [auditing, setAuditing] = useState(false);
+
+  // Kept across retries of the same check-in or check-out so it happens once
+  const pendingAction = useRef<{ action: string; key: string } | null>(null);
+
+  useEffect(() => {
+    loadDesk();
+  }, [date]);
+
+  const loadDesk = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setDesk(await api.get<FrontDeskResponse>(`/v1/admin/front-desk?date=${date}`));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load front desk');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: string, bookingId: string, body: unknown, done: string) => {
+    if (pendingAction.current?.action !== `${action}:${bookingId}`) {
+      pendingAction.current = { action: `${action}:${bookingId}`, key: crypto.randomUUID() };
+    }
+
+    setBusyId(bookingId);
+    setError(null);
+    setMessage(null);
+
+    try {
+      await api.post(`/v1/admin/front-desk/bookings/${bookingId}/${action}`, body, {
+        'Idempotency-Key': pendingAction.current.key,
+      });
+      pendingAction.current = null;
+      setMessage(done);
+      await loadDesk();
+    } catch (err: any) {
+      if (isRejected(err)) {
+        pendingAction.current = null;
+      }
+      setError(err.message || `Failed to ${action.replace('-', ' ')}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCheckIn = (stay: FrontDeskStay) =>
+    runAction('check-in', stay.id, {
+      rooms: stay.rooms.map((room) => ({ id: room.id, roomNumber: roomNumbers[room.id]?.trim() ?? '' })),
+    }, `${stay.guestName || 'Guest'} checked in`);
+
+  const handleCheckOut = (stay: FrontDeskStay) =>
+    runAction('check-out', stay.id, stay.balance.outstandingPaise > 0
+      ? { settlement: { method: settlementMethod } }
+      : {}, `${stay.guestName || 'Guest'} checked out`);
+
+  const handleNightAudit = async () => {
+    setAuditing(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response: { noShows: Array<{ bookingId: string }> } = await api.post('/v1/admin/front-desk/night-audit');
+      setMessage(`Night audit marked ${response.noShows.length} booking(s) as no-show`);
+      await loadDesk();
+    } catch (err: any) {
+      setError(err.message || 'Failed to run night audit');
+    } finally {
+      setAuditing(false);
+    }
+  };
+
+  const stays = desk ? desk[tab] : [];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Front Desk</h1>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="input w-44"
+          />
+          <button onClick={handleNightAudit} disabled={auditing} className="btn-secondary">
+            {auditing ? 'Running...' : 'Run night audit'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-6">
+          <p className="text-green-800">{message}</p>
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-4">
+        {TABS.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={tab === id ? 'btn-primary' : 'btn-secondary'}
+          >
+            {label} ({desk ? desk[id].length : 0})
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-4 py-3">Guest</th>
+              <th className="px-4 py-3">Stay</th>
+              <th className="px-4 py-3">Rooms</th>
+              <th className="px-4 py-3 text-right">Outstanding</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-center text-gray-500">Loading...</td>
+              </tr>
+            ) : stays.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-center text-gray-500">Nobody here</td>
+              </tr>
+            ) : stays.map((stay) => (
+              <tr key={stay.id} className="border-t border-gray-200 align-top">
+                <td className="px-4 py-3">
+                  <div className="font-medium">{stay.guestName || 'Guest'}</div>
+                  <div className="text-gray-500">{stay.guestEmail}</div>
+                  {stay.guestPhone && <div className="text-gray-500">{stay.guestPhone}</div>}
+                </td>
+                <td className="px-4 py-3">
+                  <div>{stay.checkIn} to {stay.checkOut}</div>
+                  <div className="text-gray-500">
+                    {stay.guests} guest(s){stay.ratePlan ? ` • ${stay.ratePlan.name}` : ''}
+                  </div>
+                </td>
+                <td className="px-4 py-3 space-y-1">
+                  {stay.rooms.map((room) => (
+                    <div key={room.id} className="flex items-center gap-2">
+                      <span>{room.roomType}</span>
+                      {tab === 'arrivals' ? (
+                        <input
+                          type="text"
+                          value={roomNumbers[room.id] ?? ''}
+                          onChange={(e) => setRoomNumbers((prev) => ({ ...prev, [room.id]: e.target.value }))}
+                          placeholder="Room no."
+                          className="input w-24"
+                          aria-label={`Room number for ${room.roomType}`}
+                        />
+                      ) : (
+                        <span className="font-medium">{room.roomNumber ? `#${room.roomNumber}` : '—'}</span>
+                      )}
+                    </div>
+                  ))}
+                </td>
+                <td className={`px-4 py-3 text-right ${stay.balance.outstandingPaise > 0 ? 'text-red-700' : ''}`}>
+                  {formatCurrency(stay.balance.outstandingPaise)}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {tab === 'arrivals' ? (
+                    <button
+                      onClick={() => handleCheckIn(stay)}
+                      disabled={busyId === stay.id || stay.rooms.some((room) => !roomNumbers[room.id]?.trim())}
+                      className="btn-primary"
+                    >
+                      {busyId === stay.id ? 'Checking in...' : 'Check in'}
+                    </button>
+                  ) : (
+                    <div className="flex items-center justify-end gap-2">
+                      {stay.balance.outstandingPaise > 0 && (
+                        <select
+                          value={settlementMethod}
+                          onChange={(e) => setSettlementMethod(e.target.value)}
+                          className="input w-28"
+                          aria-label="Settle balance by"
+                        >
+                          {SETTLEMENT_METHODS.map((method) => (
+                            <option key={method} value={method}>{method}</option>
+                          ))}
+                        </select>
+                      )}
+                      <button
+                        onClick={() => handleCheckOut(stay)}
+                        disabled={busyId === stay.id}
+                        className="btn-primary"
+                      >
+                        {busyId === stay.id
+                          ? 'Checking out...'
+                          : stay.balance.outstandingPaise > 0 ? 'Settle & check out' : 'Check out'}
+                      </button>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { api, APIError, API_BASE_URL } from '@/lib/api';
+import { formatCurrency } from '@shared/utils/currency';
+import type { ReconciliationReport } from '@shared/types/reconciliation';
+
+const ISSUE_LABELS: Record<string, string> = {
+  CAPTURED_WITHOUT_CONFIRMED_BOOKING: 'Captured, booking not confirmed',
+  PAID_WITHOUT_CAPTURE: 'Paid, no capture',
+  AMOUNT_MISMATCH: 'Amount mismatch',
+  UNRECORDED_REFUND: 'Unrecorded refund',
+};
+
+// Yesterday, the last day whose payments are complete
+function previousDay(): string {
+  const date = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  return date.toISOString().split('T')[0]!;
+}
+
+export default function AdminReconciliationPage() {
+  const [date, setDate] = useState(previousDay());
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [issuesOnly, setIssuesOnly] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReport();
+  }, [date]);
+
+  const loadReport = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response: { report: ReconciliationReport } = await api.get(`/v1/admin/reconciliation/${date}`);
+      setReport(response.report);
+    } catch (err: any) {
+      setReport(null);
+      // No report yet for the day; it can be run below
+      if (!(err instanceof APIError && err.status === 404)) {
+        setError(err.message || 'Failed to load report');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+
+    try {
+      const response: { report: ReconciliationReport } = await api.post(`/v1/admin/reconciliation/${date}/run`);
+      setReport(response.report);
+    } catch (err: any) {
+      setError(err.message || 'Failed to reconcile payments');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const rows = report ? report.rows.filter((row) => !issuesOnly || row.issue) : [];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Payment Reconciliation</h1>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="input w-44"
+          />
+          <button onClick={handleRun} disabled={running} className="btn-secondary">
+            {running ? 'Running...' : report ? 'Re-run' : 'Run'}
+          </button>
+          {report && (
+            <a
+              href={`${API_BASE_URL}/v1/admin/reconciliation/${date}?format=csv`}
+              className="btn-primary"
+            >
+              Download CSV
+            </a>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-gray-500">Loading...</p>
+      ) : !report ? (
+        <p className="text-gray-500">No report for {date} yet. Run it to reconcile that day&apos;s payments.</p>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+            <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+              <div className="text-sm text-gray-600">Captured</div>
+              <div className="text-xl font-semibold">{formatCurrency(report.summary.capturedPaise)}</div>
+              <div className="text-sm text-gray-500">{report.summary.payments} payment(s)</div>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+              <div className="text-sm text-gray-600">Settled</div>
+              <div className="text-xl font-semibold">{formatCurrency(report.summary.settledPaise)}</div>
+              <div className="text-sm text-gray-500">{report.summary.refunds} refund(s)</div>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+              <div className="text-sm text-gray-600">Fees &amp; GST</div>
+              <div className="text-xl font-semibold">
+                {formatCurrency(report.summary.feePaise + report.summary.taxPaise)}
+              </div>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+              <div className="text-sm text-gray-600">Issues</div>
+              <div className={`text-xl font-semibold ${report.summary.issues > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                {report.summary.issues}
+              </div>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+              <div className="text-sm text-gray-600">Source</div>
+              <div className="text-xl font-semibold">{report.source}</div>
+              <div className="text-sm text-gray-500">{new Date(report.updatedAt).toLocaleString('en-IN')}</div>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+            <input
+              type="checkbox"
+              checked={issuesOnly}
+              onChange={(e) => setIssuesOnly(e.target.checked)}
+              className="h-4 w-4"
+            />
+            Show issues only
+          </label>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3">Issue</th>
+                  <th className="px-4 py-3">Booking</th>
+                  <th className="px-4 py-3">Gateway ID</th>
+                  <th className="px-4 py-3 text-right">Recorded</th>
+                  <th className="px-4 py-3 text-right">Gateway</th>
+                  <th className="px-4 py-3 text-right">Settled</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
+                      {issuesOnly ? 'Everything matched' : 'Nothing to reconcile'}
+                    </td>
+                  </tr>
+                ) : rows.map((row) => (
+                  <tr
+                    key={`${row.kind}-${row.razorpayRefundId || row.razorpayPaymentId || row.bookingId}`}
+                    className="border-t border-gray-200"
+                  >
+                    <td className="px-4 py-3">
+                      <div className={`font-medium ${row.issue ? 'text-red-700' : 'text-green-700'}`}>
+                        {row.issue ? ISSUE_LABELS[row.issue] : 'Matched'}
+                      </div>
+                      {row.detail && <div className="text-gray-500">{row.detail}</div>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div>{row.bookingId || '—'}</div>
+                      {row.bookingStatus && <div className="text-gray-500">{row.bookingStatus}</div>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div>{row.razorpayRefundId || row.razorpayPaymentId || '—'}</div>
+                      <div className="text-gray-500">{row.kind.toLowerCase()}</div>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {row.recordedPaise === null ? '—' : formatCurrency(row.recordedPaise)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {row.gatewayPaise === null ? '—' : formatCurrency(row.gatewayPaise)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {row.settledPaise === null ? '—' : formatCurrency(row.settledPaise)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
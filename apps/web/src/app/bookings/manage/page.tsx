@@ -0,0 +1,554 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { api, isRejected } from '@/lib/api';
+import { formatCurrency } from '@shared/utils/currency';
+
+interface BookingRevision {
+  id: string;
+  previous: { checkIn: string; checkOut: string; guests: number; amountPaise: number };
+  current: { checkIn: string; checkOut: string; guests: number; amountPaise: number };
+  priceDifference: number;
+  topUpPaid: boolean;
+  topUpExpiresAt: string | null;
+  refundAmount: number | null;
+  createdAt: string;
+}
+
+interface BookingRefund {
+  id: string;
+  reason: 'CANCELLATION' | 'MODIFICATION';
+  amountPaise: number;
+  status: 'PENDING' | 'PROCESSED' | 'FAILED';
+  createdAt: string;
+}
+
+interface ManagedBooking {
+  id: string;
+  status: string;
+  roomType: string;
+  ratePlan: {
+    id: string;
+    name: string;
+    refundable: boolean;
+  } | null;
+  rooms: Array<{
+    roomTypeId: string;
+    roomType: string;
+    guests: number;
+  }>;
+  checkIn: string;
+  checkOut: string;
+  guests: number;
+  nights: number;
+  amountPaise: number;
+  guestName: string | null;
+  guestEmail: string | null;
+  revisions: BookingRevision[];
+  refunds: BookingRefund[];
+  balance: {
+    paidPaise: number;
+    refundedPaise: number;
+    netPaidPaise: number;
+    outstandingPaise: number;
+    dueAtPropertyPaise: number;
+  };
+}
+
+interface ModifyResponse {
+  priceDifference: number;
+  topUp: {
+    orderId: string;
+    keyId: string;
+    provider: string;
+    amount: number;
+    currency: string;
+    expiresAt?: string;
+  } | null;
+  refunds: Array<{
+    id: string;
+    amount: number;
+    status: BookingRefund['status'];
+  }>;
+  booking: ManagedBooking;
+}
+
+interface CancelResponse {
+  refundAmount: number;
+  refunds: ModifyResponse['refunds'];
+}
+
+const refundTotal = (refunds: ModifyResponse['refunds']) =>
+  refunds.reduce((total, refund) => total + refund.amount, 0);
+
+interface RoomOption {
+  roomTypeId: string;
+  name: string;
+}
+
+export default function ManageBookingPage() {
+  const searchParams = useSearchParams();
+
+  const [bookingId, setBookingId] = useState(searchParams.get('bookingId') || '');
+  const [email, setEmail] = useState(searchParams.get('email') || '');
+  const [booking, setBooking] = useState<ManagedBooking | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [changes, setChanges] = useState({ checkIn: '', checkOut: '', guests: 1, roomTypeId: '' });
+  const [roomOptions, setRoomOptions] = useState<RoomOption[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+
+  // Kept across retries of the same change so it is applied at most once
+  const modifyKey = useRef<string | null>(null);
+  const cancelKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    modifyKey.current = null;
+  }, [changes]);
+
+  const isSingleRoom = (booking?.rooms.length ?? 0) <= 1;
+
+  const loadBooking = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response: { booking: ManagedBooking } = await api.get(
+        `/v1/bookings/${encodeURIComponent(bookingId.trim())}?email=${encodeURIComponent(email.trim())}`
+      );
+      showBooking(response.booking);
+    } catch (err: any) {
+      setBooking(null);
+      setError(err.message || 'We could not find a booking with those details');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showBooking = (found: ManagedBooking) => {
+    setBooking(found);
+    setChanges({
+      checkIn: found.checkIn,
+      checkOut: found.checkOut,
+      guests: found.rooms[0]?.guests ?? found.guests,
+      roomTypeId: found.rooms[0]?.roomTypeId ?? '',
+    });
+  };
+
+  // Offer the room types that are free for the new dates
+  useEffect(() => {
+    if (!booking || !isSingleRoom || !changes.checkIn || !changes.checkOut || changes.checkIn >= changes.checkOut) {
+      return;
+    }
+
+    const params = new URLSearchParams({
+      checkIn: changes.checkIn,
+      checkOut: changes.checkOut,
+      guests: changes.guests.toString(),
+    });
+
+    api.get(`/v1/availability?${params}`)
+      .then((response: any) => {
+        const options = new Map<string, string>();
+        for (const room of booking.rooms) {
+          options.set(room.roomTypeId, room.roomType);
+        }
+        for (const room of response.rooms || []) {
+          options.set(room.roomTypeId, room.name);
+        }
+        setRoomOptions(Array.from(options, ([roomTypeId, name]) => ({ roomTypeId, name })));
+      })
+      .catch(() => setRoomOptions(booking.rooms.map(room => ({ roomTypeId: room.roomTypeId, name: room.roomType }))));
+  }, [booking, isSingleRoom, changes.checkIn, changes.checkOut, changes.guests]);
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    loadBooking();
+  };
+
+  const handleModify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!booking) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    modifyKey.current ??= crypto.randomUUID();
+
+    try {
+      const response: ModifyResponse = await api.post(`/v1/bookings/${booking.id}/modify`, {
+        email: email.trim() || undefined,
+        checkIn: changes.checkIn,
+        checkOut: changes.checkOut,
+        ...(isSingleRoom ? { roomTypeId: changes.roomTypeId, guests: changes.guests } : {}),
+      }, { 'Idempotency-Key': modifyKey.current });
+      modifyKey.current = null;
+      showBooking(response.booking);
+
+      if (response.topUp) {
+        setMessage(`Your stay has been updated. Please pay the difference of ${formatCurrency(response.topUp.amount)}.`);
+        await openTopUpPayment(response.topUp);
+      } else if (response.refunds.length > 0) {
+        setMessage(`Your stay has been updated. ${formatCurrency(refundTotal(response.refunds))} will be refunded to your original payment method.`);
+      } else {
+        setMessage('Your stay has been updated. The price is unchanged.');
+      }
+    } catch (err: any) {
+      if (isRejected(err)) {
+        modifyKey.current = null;
+      }
+      setError(err.message || 'Failed to update booking');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!booking || !window.confirm('Cancel this booking? This cannot be undone.')) {
+      return;
+    }
+
+    setCancelling(true);
+    setError(null);
+    setMessage(null);
+    cancelKey.current ??= crypto.randomUUID();
+
+    try {
+      const response: CancelResponse = await api.post(`/v1/bookings/${booking.id}/cancel`, {
+        email: email.trim() || undefined,
+      }, { 'Idempotency-Key': cancelKey.current });
+      cancelKey.current = null;
+      await loadBooking();
+
+      if (response.refunds.some(refund => refund.status === 'FAILED')) {
+        setMessage(`Your booking has been cancelled. We will contact you about your refund of ${formatCurrency(response.refundAmount)}.`);
+      } else if (response.refunds.length > 0) {
+        setMessage(`Your booking has been cancelled. ${formatCurrency(response.refundAmount)} will be refunded to your original payment method.`);
+      } else {
+        setMessage('Your booking has been cancelled.');
+      }
+    } catch (err: any) {
+      if (isRejected(err)) {
+        cancelKey.current = null;
+      }
+      setError(err.message || 'Failed to cancel booking');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const openTopUpPayment = async (topUp: NonNullable<ModifyResponse['topUp']>) => {
+    // The local payment simulator stands in for the Razorpay checkout
+    if (topUp.provider === 'simulator') {
+      await api.post(`/v1/payments/simulator/orders/${topUp.orderId}/pay`, { outcome: 'success' });
+      setMessage('Thank you! Your payment for the booking change was received.');
+      return;
+    }
+
+    if (typeof window === 'undefined' || !(window as any).Razorpay) {
+      console.log('Razorpay not loaded, top-up payment skipped');
+      return;
+    }
+
+    const razorpay = new (window as any).Razorpay({
+      key: topUp.keyId,
+      amount: topUp.amount,
+      currency: topUp.currency,
+      order_id: topUp.orderId,
+      name: 'Pod & Beyond',
+      description: `Booking change for ${booking?.id}`,
+      handler: function () {
+        setMessage('Thank you! Your payment for the booking change was received.');
+      },
+      prefill: {
+        name: booking?.guestName,
+        email: booking?.guestEmail,
+      },
+      theme: {
+        color: '#2563eb',
+      },
+    });
+    razorpay.open();
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Load Razorpay script */}
+      <script src="https://checkout.razorpay.com/v1/checkout.js" async />
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Manage Your Booking</h1>
+
+        {/* Lookup Form */}
+        <form onSubmit={handleLookup} className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div>
+            <label htmlFor="bookingId" className="block text-sm font-medium text-gray-700 mb-1">
+              Booking ID
+            </label>
+            <input
+              type="text"
+              id="bookingId"
+              value={bookingId}
+              onChange={(e) => setBookingId(e.target.value)}
+              className="input"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+              Email Address
+            </label>
+            <input
+              type="email"
+              id="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="input"
+              required
+            />
+          </div>
+          <div className="flex items-end">
+            <button type="submit" disabled={loading} className="btn-primary w-full">
+              {loading ? 'Finding...' : 'Find Booking'}
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+            <p className="text-red-800">{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-6">
+            <p className="text-green-800">{message}</p>
+          </div>
+        )}
+
+        {booking && (
+          <>
+            {/* Booking Summary */}
+            <div className="bg-gray-50 rounded-lg p-4 mb-6">
+              <h2 className="text-lg font-semibold mb-3">Booking Summary</h2>
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span>Status:</span>
+                  <span className="font-medium">{booking.status}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Rooms:</span>
+                  <span>{booking.roomType}</span>
+                </div>
+                {booking.ratePlan && (
+                  <div className="flex justify-between">
+                    <span>Rate plan:</span>
+                    <span>{booking.ratePlan.name}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>Dates:</span>
+                  <span>{booking.checkIn} to {booking.checkOut} ({booking.nights} {booking.nights === 1 ? 'night' : 'nights'})</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Guests:</span>
+                  <span>{booking.guests}</span>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span>Total:</span>
+                  <span>{formatCurrency(booking.amountPaise)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Paid:</span>
+                  <span>{formatCurrency(booking.balance.netPaidPaise)}</span>
+                </div>
+                {booking.balance.outstandingPaise > booking.balance.dueAtPropertyPaise && (
+                  <div className="flex justify-between text-red-700">
+                    <span>Outstanding:</span>
+                    <span>{formatCurrency(booking.balance.outstandingPaise - booking.balance.dueAtPropertyPaise)}</span>
+                  </div>
+                )}
+                {booking.balance.dueAtPropertyPaise > 0 && (
+                  <div className="flex justify-between">
+                    <span>Due at the property:</span>
+                    <span>{formatCurrency(booking.balance.dueAtPropertyPaise)}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Change Stay */}
+            {booking.status === 'CONFIRMED' && booking.ratePlan?.refundable !== false ? (
+              <form onSubmit={handleModify} className="space-y-4 mb-6">
+                <h2 className="text-lg font-semibold">Change Your Stay</h2>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="checkIn" className="block text-sm font-medium text-gray-700 mb-1">
+                      Check-in
+                    </label>
+                    <input
+                      type="date"
+                      id="checkIn"
+                      value={changes.checkIn}
+                      onChange={(e) => setChanges(prev => ({ ...prev, checkIn: e.target.value }))}
+                      className="input"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="checkOut" className="block text-sm font-medium text-gray-700 mb-1">
+                      Check-out
+                    </label>
+                    <input
+                      type="date"
+                      id="checkOut"
+                      value={changes.checkOut}
+                      onChange={(e) => setChanges(prev => ({ ...prev, checkOut: e.target.value }))}
+                      className="input"
+                      required
+                    />
+                  </div>
+
+                  {isSingleRoom && (
+                    <>
+                      <div>
+                        <label htmlFor="roomTypeId" className="block text-sm font-medium text-gray-700 mb-1">
+                          Room
+                        </label>
+                        <select
+                          id="roomTypeId"
+                          value={changes.roomTypeId}
+                          onChange={(e) => setChanges(prev => ({ ...prev, roomTypeId: e.target.value }))}
+                          className="input"
+                        >
+                          {roomOptions.map((option) => (
+                            <option key={option.roomTypeId} value={option.roomTypeId}>
+                              {option.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="guests" className="block text-sm font-medium text-gray-700 mb-1">
+                          Guests
+                        </label>
+                        <select
+                          id="guests"
+                          value={changes.guests}
+                          onChange={(e) => setChanges(prev => ({ ...prev, guests: Number(e.target.value) }))}
+                          className="input"
+                        >
+                          {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((num) => (
+                            <option key={num} value={num}>
+                              {num} {num === 1 ? 'Guest' : 'Guests'}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                <button type="submit" disabled={saving} className="btn-primary w-full">
+                  {saving ? 'Updating...' : 'Update Booking'}
+                </button>
+                <p className="text-xs text-gray-500 text-center">
+                  Your stay will be repriced. You will pay any difference now, or be refunded if the new price is lower.
+                </p>
+              </form>
+            ) : (
+              <p className="text-sm text-gray-600 mb-6">
+                This booking can no longer be changed online. Please contact us for help.
+              </p>
+            )}
+
+            {/* Cancel Booking; stays that have begun are handled at the front desk */}
+            {(booking.status === 'PENDING' ||
+              (booking.status === 'CONFIRMED' && booking.checkIn > new Date().toISOString().split('T')[0]!)) && (
+              <div className="border-t border-gray-200 pt-4 mb-6">
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  disabled={cancelling}
+                  className="text-sm text-red-600 hover:text-red-700"
+                >
+                  {cancelling ? 'Cancelling...' : 'Cancel Booking'}
+                </button>
+                <p className="text-xs text-gray-500 mt-1">
+                  {booking.ratePlan?.refundable === false
+                    ? 'This booking is non-refundable.'
+                    : 'Free cancellation until 24 hours before check-in, then 50% is refunded until check-in.'}
+                </p>
+              </div>
+            )}
+
+            {/* Refunds */}
+            {booking.refunds.length > 0 && (
+              <div className="mb-6">
+                <h2 className="text-lg font-semibold mb-3">Refunds</h2>
+                <div className="space-y-2 text-sm">
+                  {booking.refunds.map((refund) => (
+                    <div key={refund.id} className="flex justify-between">
+                      <span>
+                        {refund.reason === 'CANCELLATION' ? 'Cancellation' : 'Booking change'} •{' '}
+                        {new Date(refund.createdAt).toLocaleDateString('en-IN')}
+                      </span>
+                      <span>
+                        {formatCurrency(refund.amountPaise)}{' '}
+                        <span className="text-gray-500">
+                          ({refund.status === 'PROCESSED' ? 'refunded' : refund.status === 'FAILED' ? 'needs attention' : 'processing'})
+                        </span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Revision History */}
+            {booking.revisions.length > 0 && (
+              <div>
+                <h2 className="text-lg font-semibold mb-3">Change History</h2>
+                <div className="space-y-3">
+                  {booking.revisions.map((revision) => (
+                    <div key={revision.id} className="border border-gray-200 rounded-md p-3 text-sm">
+                      <div className="text-gray-500 mb-1">
+                        {new Date(revision.createdAt).toLocaleString('en-IN')}
+                      </div>
+                      <div>
+                        {revision.previous.checkIn} – {revision.previous.checkOut} ({revision.previous.guests} guests)
+                        {' → '}
+                        {revision.current.checkIn} – {revision.current.checkOut} ({revision.current.guests} guests)
+                      </div>
+                      <div className="text-gray-600">
+                        {revision.priceDifference > 0 && (
+                          <>Paid {formatCurrency(revision.priceDifference)} more{!revision.topUpPaid && (
+                            revision.topUpExpiresAt && new Date(revision.topUpExpiresAt) <= new Date()
+                              ? ' (due at the property)'
+                              : ' (payment pending)'
+                          )}</>
+                        )}
+                        {revision.priceDifference < 0 && (
+                          <>Refund of {formatCurrency(revision.refundAmount ?? -revision.priceDifference)}</>
+                        )}
+                        {revision.priceDifference === 0 && 'No price change'}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
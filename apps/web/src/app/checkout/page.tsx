@@ -1,18 +1,44 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
-import { api } from '@/lib/api';
+import { api, isRejected } from '@/lib/api';
 import { formatCurrency } from '@shared/utils/currency';
+import type { PriceQuote } from '@shared/types/pricing';
+
+interface BookingRoom {
+  roomTypeId: string;
+  guests: number;
+}
 
 interface BookingData {
   roomTypeId: string;
+  rooms?: BookingRoom[]; // Multi-room booking
+  ratePlanId?: string;
   checkIn: string;
   checkOut: string;
   guests: number;
   guestName: string;
   guestEmail: string;
   guestPhone?: string;
+  promoCode?: string;
+  redeemPoints?: number; // Loyalty points off the price
+}
+
+interface PaymentTerms {
+  mode: 'FULL' | 'DEPOSIT' | 'PAY_AT_PROPERTY';
+  dueNowPaise: number;
+  dueAtPropertyPaise: number;
+}
+
+interface QuoteResponse {
+  pricing: PriceQuote;
+  points: {
+    redeemed: number;
+    valuePaise: number;
+    maxPoints: number;
+  };
+  payment: PaymentTerms;
 }
 
 interface BookingResponse {
@@ -20,32 +46,53 @@ interface BookingResponse {
   razorpay: {
     orderId: string;
     keyId: string;
+    provider: string;
     amount: number;
     currency: string;
-  };
+  } | null; // Nothing to pay online
+  payment: PaymentTerms;
   booking: {
     id: string;
     roomType: string;
+    rooms: Array<{
+      roomTypeId: string;
+      roomType: string;
+      guests: number;
+      pricing: PriceQuote;
+    }>;
+    ratePlan: {
+      id: string;
+      name: string;
+      refundable: boolean;
+    } | null;
     checkIn: string;
     checkOut: string;
     guests: number;
     nights: number;
-    pricing: {
-      baseAmount: number;
-      serviceCharge: number;
-      gstOnRoom: number;
-      gstOnService: number;
-      totalAmount: number;
-    };
+    pricing: PriceQuote;
   };
 }
 
+// Rooms are passed as "roomTypeId:guests,roomTypeId:guests"
+function parseRooms(value: string | null): BookingRoom[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  return value.split(',').map((room) => {
+    const [roomTypeId = '', guests] = room.split(':');
+    return { roomTypeId, guests: Number(guests) || 1 };
+  });
+}
+
 export default function CheckoutPage() {
   const searchParams = useSearchParams();
   const router = useRouter();
   
   const [formData, setFormData] = useState<BookingData>({
     roomTypeId: searchParams.get('roomTypeId') || '',
+    rooms: parseRooms(searchParams.get('rooms')),
+    ratePlanId: searchParams.get('ratePlanId') || undefined,
     checkIn: searchParams.get('checkIn') || '',
     checkOut: searchParams.get('checkOut') || '',
     guests: Number(searchParams.get('guests')) || 2,
@@ -56,13 +103,124 @@ export default function CheckoutPage() {
   
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [terms, setTerms] = useState<PaymentTerms | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  const [pointsInput, setPointsInput] = useState('');
+  const [pointsPaise, setPointsPaise] = useState(0);
+  const [pointsError, setPointsError] = useState<string | null>(null);
+  const [applyingPoints, setApplyingPoints] = useState(false);
+  const idempotencyKey = useRef<string | null>(null);
 
   useEffect(() => {
     // Validate required parameters
-    if (!formData.roomTypeId || !formData.checkIn || !formData.checkOut) {
+    if ((!formData.roomTypeId && !formData.rooms) || !formData.checkIn || !formData.checkOut) {
       router.push('/rooms');
     }
-  }, [formData.roomTypeId, formData.checkIn, formData.checkOut, router]);
+  }, [formData.roomTypeId, formData.rooms, formData.checkIn, formData.checkOut, router]);
+
+  // Either a single room or the list of rooms, never both
+  const stayDetails = () => ({
+    ...(formData.rooms
+      ? { rooms: formData.rooms }
+      : { roomTypeId: formData.roomTypeId, guests: formData.guests }),
+    ratePlanId: formData.ratePlanId,
+    checkIn: formData.checkIn,
+    checkOut: formData.checkOut,
+  });
+
+  const fetchQuote = async (promoCode?: string, redeemPoints?: number) => {
+    const response: QuoteResponse = await api.post('/v1/bookings/quote', {
+      ...stayDetails(),
+      promoCode,
+      redeemPoints,
+      guestEmail: formData.guestEmail || undefined,
+    });
+    setTerms(response.payment);
+    setPointsPaise(response.points.valuePaise);
+    return response.pricing;
+  };
+
+  useEffect(() => {
+    if ((!formData.roomTypeId && !formData.rooms) || !formData.checkIn || !formData.checkOut) {
+      return;
+    }
+
+    fetchQuote()
+      .then(setQuote)
+      .catch(() => setQuote(null));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [formData.roomTypeId, formData.rooms, formData.ratePlanId, formData.checkIn, formData.checkOut, formData.guests]);
+
+  // Changed details are a different booking
+  useEffect(() => {
+    idempotencyKey.current = null;
+  }, [formData]);
+
+  const handleApplyPromo = async () => {
+    if (!promoInput.trim()) {
+      return;
+    }
+
+    setApplyingPromo(true);
+    setPromoError(null);
+
+    try {
+      const pricing = await fetchQuote(promoInput.trim(), formData.redeemPoints);
+      setQuote(pricing);
+      setFormData(prev => ({ ...prev, promoCode: pricing.promoCode ?? undefined }));
+    } catch (err: any) {
+      setPromoError(err.message || 'Promo code could not be applied');
+    } finally {
+      setApplyingPromo(false);
+    }
+  };
+
+  const handleRemovePromo = async () => {
+    setPromoInput('');
+    setPromoError(null);
+    setFormData(prev => ({ ...prev, promoCode: undefined }));
+
+    try {
+      setQuote(await fetchQuote(undefined, formData.redeemPoints));
+    } catch {
+      setQuote(null);
+    }
+  };
+
+  const handleApplyPoints = async () => {
+    const points = Number(pointsInput);
+    if (!Number.isInteger(points) || points < 1) {
+      setPointsError('Enter a whole number of points');
+      return;
+    }
+
+    setApplyingPoints(true);
+    setPointsError(null);
+
+    try {
+      setQuote(await fetchQuote(formData.promoCode, points));
+      setFormData(prev => ({ ...prev, redeemPoints: points }));
+    } catch (err: any) {
+      setPointsError(err.message || 'Points could not be redeemed');
+    } finally {
+      setApplyingPoints(false);
+    }
+  };
+
+  const handleRemovePoints = async () => {
+    setPointsInput('');
+    setPointsError(null);
+    setFormData(prev => ({ ...prev, redeemPoints: undefined }));
+
+    try {
+      setQuote(await fetchQuote(formData.promoCode));
+    } catch {
+      setQuote(null);
+    }
+  };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -74,22 +232,60 @@ export default function CheckoutPage() {
     setLoading(true);
     setError(null);
 
+    // Paying again after a dismissed or failed attempt reuses the booking
+    // already created for these details instead of creating another
+    idempotencyKey.current ??= crypto.randomUUID();
+
     try {
       // Create booking
-      const bookingResponse: BookingResponse = await api.post('/v1/bookings', formData);
+      const bookingResponse: BookingResponse = await api.post('/v1/bookings', {
+        ...stayDetails(),
+        guestName: formData.guestName,
+        guestEmail: formData.guestEmail,
+        guestPhone: formData.guestPhone,
+        promoCode: formData.promoCode,
+        redeemPoints: formData.redeemPoints,
+      }, { 'Idempotency-Key': idempotencyKey.current });
       
+      // Pay-at-property bookings are confirmed without an online payment
+      if (!bookingResponse.razorpay) {
+        router.push(`/confirm?bookingId=${bookingResponse.bookingId}&payAtProperty=true`);
+        return;
+      }
+      const order = bookingResponse.razorpay;
+
+      // The local payment simulator stands in for the Razorpay checkout
+      if (order.provider === 'simulator') {
+        const payment: { razorpay_order_id: string; razorpay_payment_id: string; razorpay_signature: string } =
+          await api.post(`/v1/payments/simulator/orders/${order.orderId}/pay`, { outcome: 'success' });
+        const params = new URLSearchParams({
+          bookingId: bookingResponse.bookingId,
+          orderId: payment.razorpay_order_id,
+          paymentId: payment.razorpay_payment_id,
+          signature: payment.razorpay_signature,
+        });
+        router.push(`/confirm?${params}`);
+        return;
+      }
+
       // Initialize Razorpay payment
       if (typeof window !== 'undefined' && (window as any).Razorpay) {
         const options = {
-          key: bookingResponse.razorpay.keyId,
-          amount: bookingResponse.razorpay.amount,
-          currency: bookingResponse.razorpay.currency,
-          order_id: bookingResponse.razorpay.orderId,
+          key: order.keyId,
+          amount: order.amount,
+          currency: order.currency,
+          order_id: order.orderId,
           name: 'Pod & Beyond',
           description: `Booking for ${bookingResponse.booking.roomType}`,
           handler: function (response: any) {
-            // Payment successful
-            router.push(`/confirm?bookingId=${bookingResponse.bookingId}&paymentId=${response.razorpay_payment_id}`);
+            // Payment authorised; the confirm page verifies it with the API
+            const params = new URLSearchParams({
+              bookingId: bookingResponse.bookingId,
+              orderId: response.razorpay_order_id,
+              paymentId: response.razorpay_payment_id,
+              signature: response.razorpay_signature,
+            });
+            router.push(`/confirm?${params}`);
           },
           prefill: {
             name: formData.guestName,
@@ -114,6 +310,10 @@ export default function CheckoutPage() {
         router.push(`/confirm?bookingId=${bookingResponse.bookingId}&stub=true`);
       }
     } catch (err: any) {
+      // The booking was rejected, so a corrected one needs a new key
+      if (isRejected(err)) {
+        idempotencyKey.current = null;
+      }
       setError(err.message || 'Failed to create booking');
       setLoading(false);
     }
@@ -143,6 +343,125 @@ export default function CheckoutPage() {
               <span>Guests:</span>
               <span>{formData.guests}</span>
             </div>
+            {formData.rooms && (
+              <div className="flex justify-between">
+                <span>Rooms:</span>
+                <span>{formData.rooms.length}</span>
+              </div>
+            )}
+            {quote && (
+              <>
+                <div className="flex justify-between border-t border-gray-200 pt-2">
+                  <span>Room ({quote.nights} night{quote.nights !== 1 ? 's' : ''}):</span>
+                  <span>{formatCurrency(quote.baseAmount - quote.discountAmount)}</span>
+                </div>
+                {quote.promoDiscount > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Promo {quote.promoCode}:</span>
+                    <span>-{formatCurrency(quote.promoDiscount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>Service charge &amp; taxes:</span>
+                  <span>{formatCurrency(quote.serviceCharge + quote.gstOnRoom + quote.gstOnService)}</span>
+                </div>
+                {pointsPaise > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>{formData.redeemPoints} loyalty points:</span>
+                    <span>-{formatCurrency(pointsPaise)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-semibold">
+                  <span>Total:</span>
+                  <span>{formatCurrency(quote.totalAmount - pointsPaise)}</span>
+                </div>
+                {terms && terms.mode !== 'FULL' && (
+                  <>
+                    <div className="flex justify-between border-t border-gray-200 pt-2">
+                      <span>Due now:</span>
+                      <span>{formatCurrency(terms.dueNowPaise)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Due at the property:</span>
+                      <span>{formatCurrency(terms.dueAtPropertyPaise)}</span>
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Promo Code */}
+          <div className="border-t border-gray-200 mt-4 pt-4">
+            {formData.promoCode ? (
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-green-700">Promo code {formData.promoCode} applied</span>
+                <button
+                  type="button"
+                  onClick={handleRemovePromo}
+                  className="text-primary-600 hover:text-primary-700"
+                >
+                  Remove
+                </button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={promoInput}
+                  onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                  className="input flex-1"
+                  placeholder="Promo code"
+                  aria-label="Promo code"
+                />
+                <button
+                  type="button"
+                  onClick={handleApplyPromo}
+                  disabled={applyingPromo || !promoInput.trim()}
+                  className="btn-secondary"
+                >
+                  {applyingPromo ? 'Applying...' : 'Apply'}
+                </button>
+              </div>
+            )}
+            {promoError && <p className="text-sm text-red-600 mt-2">{promoError}</p>}
+          </div>
+
+          {/* Loyalty Points */}
+          <div className="border-t border-gray-200 mt-4 pt-4">
+            {formData.redeemPoints ? (
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-green-700">{formData.redeemPoints} points redeemed</span>
+                <button
+                  type="button"
+                  onClick={handleRemovePoints}
+                  className="text-primary-600 hover:text-primary-700"
+                >
+                  Remove
+                </button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  value={pointsInput}
+                  onChange={(e) => setPointsInput(e.target.value)}
+                  className="input flex-1"
+                  placeholder="Loyalty points to redeem (signed-in members)"
+                  aria-label="Loyalty points to redeem"
+                />
+                <button
+                  type="button"
+                  onClick={handleApplyPoints}
+                  disabled={applyingPoints || !pointsInput}
+                  className="btn-secondary"
+                >
+                  {applyingPoints ? 'Applying...' : 'Redeem'}
+                </button>
+              </div>
+            )}
+            {pointsError && <p className="text-sm text-red-600 mt-2">{pointsError}</p>}
           </div>
         </div>
 
@@ -244,13 +563,17 @@ export default function CheckoutPage() {
                   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
                   Processing...
                 </div>
+              ) : terms?.mode === 'PAY_AT_PROPERTY' ? (
+                'Confirm Booking'
               ) : (
                 'Proceed to Payment'
               )}
             </button>
             
             <p className="text-xs text-gray-500 text-center mt-2">
-              You will be redirected to Razorpay for secure payment processing
+              {terms?.mode === 'PAY_AT_PROPERTY'
+                ? 'Nothing is charged now; pay for your stay at the property'
+                : 'You will be redirected to Razorpay for secure payment processing'}
             </p>
           </div>
         </form>
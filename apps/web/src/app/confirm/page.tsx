@@ -3,12 +3,133 @@
 import { useEffect, useState } from 'react';
 import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
+import { api, APIError } from '@/lib/api';
+import { formatCurrency } from '@shared/utils/currency';
+
+type PaymentState = 'verifying' | 'confirmed' | 'pending' | 'failed';
+
+interface ConfirmedBooking {
+  roomType: string;
+  checkIn: string;
+  checkOut: string;
+  guests: number;
+  balance: {
+    dueAtPropertyPaise: number;
+  };
+}
+
+const POLL_INTERVAL_MS = 3000;
+const MAX_ATTEMPTS = 10;
 
 export default function ConfirmPage() {
   const searchParams = useSearchParams();
   const bookingId = searchParams.get('bookingId');
+  const orderId = searchParams.get('orderId');
   const paymentId = searchParams.get('paymentId');
+  const signature = searchParams.get('signature');
   const isStub = searchParams.get('stub') === 'true';
+  // Pay-at-property bookings are confirmed without an online payment
+  const payAtProperty = searchParams.get('payAtProperty') === 'true';
+
+  const [paymentState, setPaymentState] = useState<PaymentState>(isStub || payAtProperty ? 'confirmed' : 'verifying');
+  const [booking, setBooking] = useState<ConfirmedBooking | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Verify the payment, retrying until it or the webhook has confirmed the booking
+  useEffect(() => {
+    if (isStub || payAtProperty) {
+      return;
+    }
+    if (!bookingId || !orderId || !paymentId || !signature) {
+      setPaymentState('failed');
+      setError('We could not find your payment details.');
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const verify = async (attempt: number) => {
+      try {
+        const response: { status: string; booking: ConfirmedBooking } = await api.post(
+          `/v1/bookings/${bookingId}/verify-payment`,
+          { razorpayOrderId: orderId, razorpayPaymentId: paymentId, razorpaySignature: signature }
+        );
+        if (cancelled) {
+          return;
+        }
+        setBooking(response.booking);
+        if (response.status === 'CONFIRMED') {
+          setPaymentState('confirmed');
+          return;
+        }
+      } catch (err) {
+        if (cancelled) {
+          return;
+        }
+        // Bad signatures and bookings that can't be honoured won't fix themselves
+        if (err instanceof APIError && err.status >= 400 && err.status < 500) {
+          setPaymentState('failed');
+          setError(err.message);
+          return;
+        }
+      }
+
+      if (attempt >= MAX_ATTEMPTS) {
+        setPaymentState('pending');
+        return;
+      }
+      timer = setTimeout(() => verify(attempt + 1), POLL_INTERVAL_MS);
+    };
+
+    verify(1);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [bookingId, orderId, paymentId, signature, isStub, payAtProperty]);
+
+  if (paymentState === 'verifying' || paymentState === 'pending') {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-6"></div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">
+            Confirming your payment...
+          </h1>
+          <p className="text-gray-600 mb-6">
+            {paymentState === 'verifying'
+              ? 'Please wait while we confirm your payment with the bank. Do not close this page.'
+              : 'Your payment is still being processed. We will email you as soon as your booking is confirmed.'}
+          </p>
+          <div className="text-sm text-gray-500">Booking ID: {bookingId}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (paymentState === 'failed') {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">
+            We could not confirm your booking
+          </h1>
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+            <p className="text-red-800">{error}</p>
+          </div>
+          <p className="text-sm text-gray-600">
+            Booking ID: {bookingId}. Contact us at{' '}
+            <a href="mailto:support@podnbeyond.com" className="text-primary-600 hover:text-primary-700">
+              support@podnbeyond.com
+            </a>{' '}
+            if you were charged.
+          </p>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -38,6 +159,35 @@ export default function ConfirmPage() {
               <span className="text-gray-600">Booking ID:</span>
               <span className="font-medium">{bookingId}</span>
             </div>
+
+            {booking && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Rooms:</span>
+                  <span className="font-medium">{booking.roomType}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Dates:</span>
+                  <span className="font-medium">{booking.checkIn} to {booking.checkOut}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Guests:</span>
+                  <span className="font-medium">{booking.guests}</span>
+                </div>
+                {booking.balance.dueAtPropertyPaise > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Due at the property:</span>
+                    <span className="font-medium">{formatCurrency(booking.balance.dueAtPropertyPaise)}</span>
+                  </div>
+                )}
+              </>
+            )}
+
+            {payAtProperty && (
+              <p className="text-sm text-gray-600">
+                Nothing has been charged. Pay for your stay at the property when you check in.
+              </p>
+            )}
             
             {paymentId && (
               <div className="flex justify-between">
@@ -49,7 +199,7 @@ export default function ConfirmPage() {
             {isStub && (
               <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
                 <p className="text-yellow-800 text-sm">
-                  <strong>Development Mode:</strong> This is a test booking. Razorpay integration is not configured.
+                  <strong>Development Mode:</strong> This is a test booking. The Razorpay checkout did not load, so no payment was taken.
                 </p>
               </div>
             )}
@@ -86,6 +236,9 @@ export default function ConfirmPage() {
           <Link href="/" className="btn-primary">
             Book Another Stay
           </Link>
+          <Link href={`/bookings/manage?bookingId=${bookingId ?? ''}`} className="btn-outline">
+            Manage Booking
+          </Link>
           <Link href="/account" className="btn-outline">
             View My Bookings
           </Link>
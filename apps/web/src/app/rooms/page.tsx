@@ -3,32 +3,49 @@
 import { useEffect, useState } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { RoomCard } from '@/components/RoomCard';
+import { RoomCombinationCard } from '@/components/RoomCombinationCard';
 import { SearchWidget } from '@/components/SearchWidget';
 import { useRouter } from 'next/navigation';
 import { api } from '@/lib/api';
+import type { PriceQuote } from '@shared/types/pricing';
 
 interface AvailableRoom {
   roomTypeId: string;
+  ratePlanId: string;
+  ratePlanName: string;
+  refundable: boolean;
+  paymentMode: 'FULL' | 'DEPOSIT' | 'PAY_AT_PROPERTY';
+  depositPct: number | null;
   name: string;
   capacity: number;
   amenities: string[];
   images: string[];
   available: number;
-  pricing: {
-    nights: number;
-    baseRate: number;
-    baseAmount: number;
-    serviceCharge: number;
-    gstOnRoom: number;
-    gstOnService: number;
-    totalAmount: number;
-  };
+  pricing: PriceQuote;
+}
+
+interface RoomCombination {
+  ratePlanId: string;
+  ratePlanName: string;
+  refundable: boolean;
+  paymentMode: 'FULL' | 'DEPOSIT' | 'PAY_AT_PROPERTY';
+  depositPct: number | null;
+  capacity: number;
+  rooms: Array<{
+    roomTypeId: string;
+    name: string;
+    capacity: number;
+    guests: number;
+    pricing: PriceQuote;
+  }>;
+  pricing: PriceQuote;
 }
 
 export default function RoomsPage() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const [rooms, setRooms] = useState<AvailableRoom[]>([]);
+  const [combinations, setCombinations] = useState<RoomCombination[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -53,8 +70,9 @@ export default function RoomsPage() {
         guests: guests.toString(),
       });
       
-      const response = await api.get(`/v1/availability?${params}`);
+      const response = await api.get<{ rooms?: AvailableRoom[]; combinations?: RoomCombination[] }>(`/v1/availability?${params}`);
       setRooms(response.rooms || []);
+      setCombinations(response.combinations || []);
     } catch (err) {
       setError('Failed to search rooms. Please try again.');
       console.error('Search error:', err);
@@ -77,9 +95,22 @@ export default function RoomsPage() {
     router.push(`/rooms?${params.toString()}`);
   };
 
-  const handleBookRoom = (roomTypeId: string) => {
+  const handleBookRoom = (roomTypeId: string, ratePlanId: string) => {
     const params = new URLSearchParams({
       roomTypeId,
+      ratePlanId,
+      checkIn,
+      checkOut,
+      guests: guests.toString(),
+    });
+    
+    router.push(`/checkout?${params.toString()}`);
+  };
+
+  const handleBookCombination = (combination: RoomCombination) => {
+    const params = new URLSearchParams({
+      rooms: combination.rooms.map(room => `${room.roomTypeId}:${room.guests}`).join(','),
+      ratePlanId: combination.ratePlanId,
       checkIn,
       checkOut,
       guests: guests.toString(),
@@ -127,7 +158,7 @@ export default function RoomsPage() {
           </div>
         )}
 
-        {!loading && !error && rooms.length === 0 && checkIn && checkOut && (
+        {!loading && !error && rooms.length === 0 && combinations.length === 0 && checkIn && checkOut && (
           <div className="text-center py-12">
             <svg className="w-16 h-16 text-gray-400 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
@@ -146,9 +177,24 @@ export default function RoomsPage() {
           <div className="space-y-6">
             {rooms.map((room) => (
               <RoomCard
-                key={room.roomTypeId}
+                key={`${room.roomTypeId}-${room.ratePlanId}`}
                 room={room}
-                onBook={() => handleBookRoom(room.roomTypeId)}
+                onBook={() => handleBookRoom(room.roomTypeId, room.ratePlanId)}
+              />
+            ))}
+          </div>
+        )}
+
+        {!loading && !error && combinations.length > 0 && (
+          <div className="space-y-6">
+            <p className="text-gray-600">
+              No single room fits {guests} guests, but these combinations do:
+            </p>
+            {combinations.map((combination, index) => (
+              <RoomCombinationCard
+                key={`${combination.ratePlanId}-${index}`}
+                combination={combination}
+                onBook={() => handleBookCombination(combination)}
               />
             ))}
           </div>
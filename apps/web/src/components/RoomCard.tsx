@@ -1,23 +1,21 @@
 import Image from 'next/image';
 import { formatCurrency } from '@shared/utils/currency';
+import type { PriceQuote } from '@shared/types/pricing';
 
 interface RoomCardProps {
   room: {
     roomTypeId: string;
+    ratePlanId: string;
+    ratePlanName: string;
+    refundable: boolean;
+    paymentMode: 'FULL' | 'DEPOSIT' | 'PAY_AT_PROPERTY';
+    depositPct: number | null;
     name: string;
     capacity: number;
     amenities: string[];
     images: string[];
     available: number;
-    pricing: {
-      nights: number;
-      baseRate: number;
-      baseAmount: number;
-      serviceCharge: number;
-      gstOnRoom: number;
-      gstOnService: number;
-      totalAmount: number;
-    };
+    pricing: PriceQuote;
   };
   onBook: () => void;
 }
@@ -45,9 +43,12 @@ export function RoomCard({ room, onBook }: RoomCardProps) {
         <div className="md:w-2/3 p-6">
           <div className="flex justify-between items-start mb-4">
             <div>
-              <h3 className="text-xl font-semibold text-gray-900 mb-2">
+              <h3 className="text-xl font-semibold text-gray-900 mb-1">
                 {room.name}
               </h3>
+              <div className="text-sm font-medium text-primary-600 mb-2">
+                {room.ratePlanName}
+              </div>
               <div className="flex items-center text-sm text-gray-600 mb-2">
                 <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
@@ -100,22 +101,34 @@ export function RoomCard({ room, onBook }: RoomCardProps) {
                 View rate breakdown
               </summary>
               <div className="mt-2 text-sm text-gray-600 space-y-1">
+                {room.pricing.nightly.map((night) => (
+                  <div key={night.date} className="flex justify-between text-xs text-gray-500">
+                    <span>{night.date}</span>
+                    <span>{formatCurrency(night.roomRate)}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between">
                   <span>Room rate ({room.pricing.nights} nights)</span>
                   <span>{formatCurrency(room.pricing.baseAmount)}</span>
                 </div>
+                {room.pricing.discountAmount > 0 && (
+                  <div className="flex justify-between text-green-700">
+                    <span>Discount</span>
+                    <span>-{formatCurrency(room.pricing.discountAmount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span>Service charge (10%)</span>
                   <span>{formatCurrency(room.pricing.serviceCharge)}</span>
                 </div>
-                <div className="flex justify-between">
-                  <span>GST on room (12%)</span>
-                  <span>{formatCurrency(room.pricing.gstOnRoom)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>GST on service (18%)</span>
-                  <span>{formatCurrency(room.pricing.gstOnService)}</span>
-                </div>
+                {room.pricing.taxes.map((tax) => (
+                  <div key={`${tax.category}-${tax.ratePct}`} className="flex justify-between">
+                    <span>
+                      GST on {tax.category === 'ACCOMMODATION' ? 'room' : 'service'} ({tax.ratePct}%)
+                    </span>
+                    <span>{formatCurrency(tax.amount)}</span>
+                  </div>
+                ))}
                 <div className="border-t border-gray-200 pt-1 flex justify-between font-medium">
                   <span>Total</span>
                   <span>{formatCurrency(room.pricing.totalAmount)}</span>
@@ -127,7 +140,13 @@ export function RoomCard({ room, onBook }: RoomCardProps) {
           {/* Book Button */}
           <div className="flex justify-between items-center">
             <div className="text-sm text-gray-600">
-              Free cancellation until 24 hours before check-in
+              {room.refundable
+                ? 'Free cancellation until 24 hours before check-in'
+                : 'Non-refundable'}
+              {room.paymentMode === 'DEPOSIT' && (
+                <div>Pay {room.depositPct}% now, the rest at the property</div>
+              )}
+              {room.paymentMode === 'PAY_AT_PROPERTY' && <div>No prepayment - pay at the property</div>}
             </div>
             <button
               onClick={onBook}
@@ -0,0 +1,83 @@
+import { formatCurrency } from '@shared/utils/currency';
+import type { PriceQuote } from '@shared/types/pricing';
+
+interface RoomCombinationCardProps {
+  combination: {
+    ratePlanId: string;
+    ratePlanName: string;
+    refundable: boolean;
+    paymentMode: 'FULL' | 'DEPOSIT' | 'PAY_AT_PROPERTY';
+    depositPct: number | null;
+    capacity: number;
+    rooms: Array<{
+      roomTypeId: string;
+      name: string;
+      capacity: number;
+      guests: number;
+      pricing: PriceQuote;
+    }>;
+    pricing: PriceQuote;
+  };
+  onBook: () => void;
+}
+
+export function RoomCombinationCard({ combination, onBook }: RoomCombinationCardProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900 mb-1">
+            {combination.rooms.length} rooms for your party
+          </h3>
+          <div className="text-sm font-medium text-primary-600 mb-2">
+            {combination.ratePlanName}
+          </div>
+          <div className="text-sm text-gray-600">
+            Sleeps up to {combination.capacity} guests
+          </div>
+        </div>
+
+        {/* Pricing */}
+        <div className="text-right">
+          <div className="text-2xl font-bold text-gray-900">
+            {formatCurrency(combination.pricing.totalAmount)}
+          </div>
+          <div className="text-sm text-gray-600">
+            for {combination.pricing.nights} {combination.pricing.nights === 1 ? 'night' : 'nights'}
+          </div>
+          <div className="text-xs text-gray-500">
+            includes taxes & fees
+          </div>
+        </div>
+      </div>
+
+      {/* Rooms */}
+      <div className="mb-4 space-y-1 text-sm text-gray-600">
+        {combination.rooms.map((room, index) => (
+          <div key={`${room.roomTypeId}-${index}`} className="flex justify-between">
+            <span>
+              {room.name} • {room.guests} {room.guests === 1 ? 'guest' : 'guests'}
+            </span>
+            <span>{formatCurrency(room.pricing.totalAmount)}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Book Button */}
+      <div className="flex justify-between items-center">
+        <div className="text-sm text-gray-600">
+          {combination.refundable
+            ? 'Free cancellation until 24 hours before check-in'
+            : 'Non-refundable'}
+          {combination.paymentMode === 'DEPOSIT' && (
+            <div>Pay {combination.depositPct}% now, the rest at the property</div>
+          )}
+          {combination.paymentMode === 'PAY_AT_PROPERTY' && <div>No prepayment - pay at the property</div>}
+        </div>
+        <button onClick={onBook} className="btn-primary">
+          Book These Rooms
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -86,7 +86,7 @@ export function SearchWidget({ onSearch }: SearchWidgetProps) {
           onChange={(e) => setGuests(Number(e.target.value))}
           className="input"
         >
-          {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((num) => (
+          {Array.from({ length: 20 }, (_, i) => i + 1).map((num) => (
             <option key={num} value={num}>
               {num} {num === 1 ? 'Guest' : 'Guests'}
             </option>
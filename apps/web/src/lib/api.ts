@@ -1,4 +1,4 @@
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
 
 class APIClient {
   private baseURL: string;
@@ -14,12 +14,12 @@ class APIClient {
     const url = `${this.baseURL}${endpoint}`;
     
     const config: RequestInit = {
+      credentials: 'include', // Include cookies for authentication
+      ...options,
       headers: {
         'Content-Type': 'application/json',
         ...options.headers,
       },
-      credentials: 'include', // Include cookies for authentication
-      ...options,
     };
 
     try {
@@ -49,10 +49,11 @@ class APIClient {
     return this.request<T>(endpoint, { method: 'GET' });
   }
 
-  async post<T>(endpoint: string, data?: any): Promise<T> {
+  async post<T>(endpoint: string, data?: any, headers?: Record<string, string>): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'POST',
       body: data ? JSON.stringify(data) : undefined,
+      headers,
     });
   }
 
@@ -79,4 +80,14 @@ export class APIError extends Error {
   }
 }
 
-export const api = new APIClient(API_BASE_URL);
\ No newline at end of file
+export const api = new APIClient(API_BASE_URL);
+
+/**
+ * Whether the API answered and turned the request down. Such a request is
+ * finished, so retrying it needs a new Idempotency-Key; anything else
+ * (network errors, 5xx, and 409s, which the API doesn't store against the
+ * key) may be retried with the same key.
+ */
+export function isRejected(err: unknown): boolean {
+  return err instanceof APIError && err.status < 500 && err.status !== 409;
+}
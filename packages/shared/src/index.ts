@@ -4,6 +4,11 @@ export * from './types/room';
 export * from './types/booking';
 export * from './types/loyalty';
 export * from './types/api';
+export * from './types/pricing';
+export * from './types/promo';
+export * from './types/restrictions';
+export * from './types/tax';
+export * from './types/reconciliation';
 
 // Validation schemas
 export * from './schemas/booking';
@@ -13,4 +18,7 @@ export * from './schemas/auth';
 // Utilities
 export * from './utils/date';
 export * from './utils/currency';
-export * from './utils/validation';
\ No newline at end of file
+export * from './utils/validation';
+export * from './utils/pricing';
+export * from './utils/restrictions';
+export * from './utils/tax';
\ No newline at end of file
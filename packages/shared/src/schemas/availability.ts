@@ -3,8 +3,10 @@ import { z } from 'zod';
 export const availabilityQuerySchema = z.object({
   checkIn: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid check-in date'),
   checkOut: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid check-out date'),
-  guests: z.coerce.number().min(1).max(10),
+  guests: z.coerce.number().min(1).max(30), // Parties above a room's capacity get room combinations
   roomTypeId: z.string().cuid().optional(),
+  ratePlanId: z.string().min(1).optional(),
+  includeRestricted: z.enum(['true', 'false']).optional(),
 });
 
 export type AvailabilityQuery = z.infer<typeof availabilityQuerySchema>;
\ No newline at end of file
@@ -1,19 +1,64 @@
 import { z } from 'zod';
 
-export const createBookingSchema = z.object({
+export const bookingRoomSchema = z.object({
   roomTypeId: z.string().cuid(),
+  guests: z.number().min(1).max(10),
+});
+
+const stayRequestSchema = z.object({
+  roomTypeId: z.string().cuid().optional(),
+  guests: z.number().min(1).max(10).optional(),
+  rooms: z.array(bookingRoomSchema).min(1).max(10).optional(),
+  ratePlanId: z.string().min(1).optional(),
   checkIn: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid check-in date'),
   checkOut: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid check-out date'),
-  guests: z.number().min(1).max(10),
-  guestName: z.string().min(1).max(100),
-  guestEmail: z.string().email(),
-  guestPhone: z.string().optional(),
+  promoCode: z.string().min(1).max(50).optional(),
+});
+
+// A stay is either a single room (roomTypeId + guests) or a list of rooms
+const hasRooms = (stay: z.infer<typeof stayRequestSchema>) =>
+  stay.rooms ? !stay.roomTypeId && !stay.guests : Boolean(stay.roomTypeId && stay.guests);
+
+const roomsMessage = { message: 'Provide either roomTypeId and guests, or rooms', path: ['rooms'] };
+
+export const createBookingSchema = stayRequestSchema
+  .extend({
+    guestName: z.string().min(1).max(100),
+    guestEmail: z.string().email(),
+    guestPhone: z.string().optional(),
+  })
+  .refine(hasRooms, roomsMessage);
+
+export const quoteBookingSchema = stayRequestSchema
+  .extend({ guestEmail: z.string().email().optional() })
+  .refine(hasRooms, roomsMessage);
+
+export const modifyBookingSchema = z.object({
+  email: z.string().email().optional(),
+  checkIn: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid check-in date').optional(),
+  checkOut: z.string().refine((date) => !isNaN(Date.parse(date)), 'Invalid check-out date').optional(),
+  roomTypeId: z.string().cuid().optional(),
+  guests: z.number().min(1).max(10).optional(),
+  rooms: z.array(bookingRoomSchema).min(1).max(10).optional(),
+}).refine((change) => !change.rooms || (!change.roomTypeId && !change.guests), {
+  message: 'Provide either roomTypeId and guests, or rooms',
+  path: ['rooms'],
+});
+
+export const verifyPaymentSchema = z.object({
+  razorpayOrderId: z.string().min(1),
+  razorpayPaymentId: z.string().min(1),
+  razorpaySignature: z.string().min(1),
 });
 
 export const cancelBookingSchema = z.object({
-  bookingId: z.string().cuid(),
-  reason: z.string().optional(),
+  email: z.string().email().optional(),
+  reason: z.string().max(500).optional(),
 });
 
+export type BookingRoomInput = z.infer<typeof bookingRoomSchema>;
 export type CreateBookingInput = z.infer<typeof createBookingSchema>;
+export type QuoteBookingInput = z.infer<typeof quoteBookingSchema>;
+export type ModifyBookingInput = z.infer<typeof modifyBookingSchema>;
+export type VerifyPaymentInput = z.infer<typeof verifyPaymentSchema>;
 export type CancelBookingInput = z.infer<typeof cancelBookingSchema>;
\ No newline at end of file
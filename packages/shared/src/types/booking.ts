@@ -1,15 +1,34 @@
-export type BookingStatus = 'PENDING' | 'PAID' | 'CANCELLED';
+import { PriceQuote } from './pricing';
+import { NoShowPolicy, PaymentMode } from './room';
+
+export type BookingStatus =
+  | 'PENDING' // Rooms held while the guest pays
+  | 'CONFIRMED' // Paid in full, deposit paid, or to pay at the property
+  | 'CHECKED_IN'
+  | 'CHECKED_OUT'
+  | 'NO_SHOW'
+  | 'CANCELLED'
+  | 'EXPIRED'; // Hold lapsed before payment
 
 export interface Booking {
   id: string;
   userId: string | null;
   roomTypeId: string;
+  ratePlanId: string | null;
   checkIn: Date;
   checkOut: Date;
   guests: number;
-  amountPaise: number;
+  amountPaise: number; // After any loyalty points
+  pointsRedeemed: number; // Loyalty points taken off the price; held while PENDING
+  pointsPaise: number; // What the redeemed points were worth
+  paymentMode: PaymentMode; // Rate plan's payment mode at booking time
+  dueNowPaise: number | null; // Taken online at booking; the rest is paid at the property
+  noShowChargePaise: number | null; // Owed instead of amountPaise once marked NO_SHOW
+  pricing: PriceQuote | null; // Snapshot taken when the booking was priced
   status: BookingStatus;
   razorpayOrderId: string | null;
+  razorpayPaymentId: string | null;
+  holdExpiresAt: Date | null; // Unpaid bookings expire and release inventory after this
   guestName: string | null;
   guestEmail: string | null;
   guestPhone: string | null;
@@ -17,37 +36,262 @@ export interface Booking {
   updatedAt: Date;
 }
 
-export interface CreateBookingRequest {
+export interface BookingRoom {
+  id: string;
+  bookingId: string;
   roomTypeId: string;
-  checkIn: string;
+  guests: number;
+  amountPaise: number;
+  pricing: PriceQuote | null;
+  roomNumber: string | null; // Assigned at check-in
+  createdAt: Date;
+}
+
+export interface BookingRevisionStay {
+  checkIn: string; // YYYY-MM-DD format
   checkOut: string;
   guests: number;
+  rooms: BookingRoomRequest[];
+  amountPaise: number;
+}
+
+export interface BookingRevision {
+  id: string;
+  bookingId: string;
+  userId: string | null;
+  previous: BookingRevisionStay;
+  current: BookingRevisionStay;
+  priceDifference: number; // New total minus old total in paise
+  razorpayOrderId: string | null; // Top-up order
+  topUpPaid: boolean;
+  topUpExpiresAt: Date | null; // Top-up order can be paid online until then
+  refundAmount: number | null;
+  createdAt: Date;
+}
+
+export type TransitionActor = 'GUEST' | 'STAFF' | 'SYSTEM';
+
+export interface BookingTransition {
+  id: string;
+  bookingId: string;
+  fromStatus: BookingStatus | null; // Null for the booking's creation
+  toStatus: BookingStatus;
+  actor: TransitionActor;
+  actorId: string | null; // User who made it; null for anonymous guests and the system
+  reason: string | null;
+  createdAt: Date;
+}
+
+export type PaymentPurpose = 'BOOKING' | 'TOP_UP' | 'BALANCE';
+
+export type PaymentMethod = 'ONLINE' | 'CASH' | 'CARD' | 'UPI' | 'OTHER';
+
+export type PaymentStatus = 'CREATED' | 'CAPTURED' | 'FAILED';
+
+export interface Payment {
+  id: string;
+  bookingId: string;
+  revisionId: string | null; // Set for the top-up of a modification
+  purpose: PaymentPurpose;
+  method: PaymentMethod;
+  amountPaise: number;
+  status: PaymentStatus;
+  razorpayOrderId: string | null;
+  razorpayPaymentId: string | null; // One payment per attempt on the order
+  failureReason: string | null;
+  payload: Record<string, unknown> | null; // Latest gateway payload
+  reference: string | null; // Receipt or slip for payments taken at the property
+  recordedBy: string | null; // Staff user who recorded a payment taken at the property
+  capturedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type RefundStatus = 'PENDING' | 'PROCESSED' | 'FAILED';
+
+export type RefundReason = 'CANCELLATION' | 'MODIFICATION' | 'NO_SHOW' | 'NOT_CONFIRMED';
+
+export interface Refund {
+  id: string;
+  bookingId: string;
+  revisionId: string | null; // Set for the difference refunded after a modification
+  paymentId: string | null; // Payment the money goes back to
+  reason: RefundReason;
+  amountPaise: number;
+  status: RefundStatus;
+  razorpayPaymentId: string | null;
+  razorpayRefundId: string | null;
+  failureReason: string | null;
+  payload: Record<string, unknown> | null; // Latest gateway payload
+  processedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ModifyBookingRequest {
+  email?: string; // Required unless signed in as the booking's owner
+  checkIn?: string;
+  checkOut?: string;
+  roomTypeId?: string;
+  guests?: number;
+  rooms?: BookingRoomRequest[];
+}
+
+export interface BookingBalance {
+  paidPaise: number; // Captured payments
+  refundedPaise: number; // Refunds issued or in progress
+  netPaidPaise: number;
+  outstandingPaise: number; // Nothing for cancelled or expired bookings
+  dueAtPropertyPaise: number; // Part of the outstanding amount collected at the property
+}
+
+export interface PaymentTerms {
+  mode: PaymentMode;
+  dueNowPaise: number; // Paid online at booking
+  dueAtPropertyPaise: number;
+}
+
+export interface CollectBalanceRequest {
+  amountPaise: number;
+  method: Exclude<PaymentMethod, 'ONLINE'>;
+  reference?: string;
+}
+
+export interface CheckInRequest {
+  rooms: Array<{
+    id: string; // Booking room line
+    roomNumber: string;
+  }>;
+}
+
+export interface CheckOutRequest {
+  settlement?: { // Collects the outstanding balance as part of the check-out
+    method: Exclude<PaymentMethod, 'ONLINE'>;
+    reference?: string;
+  };
+}
+
+export interface FrontDeskStay {
+  id: string;
+  status: BookingStatus;
+  checkIn: string; // YYYY-MM-DD format
+  checkOut: string;
+  guests: number;
+  amountPaise: number;
+  guestName: string | null;
+  guestEmail: string | null;
+  guestPhone: string | null;
+  ratePlan: { name: string; noShowPolicy: NoShowPolicy } | null;
+  rooms: Array<{
+    id: string;
+    roomTypeId: string;
+    roomType: string;
+    guests: number;
+    roomNumber: string | null;
+  }>;
+  balance: BookingBalance;
+}
+
+export interface FrontDeskResponse {
+  date: string;
+  arrivals: FrontDeskStay[]; // Confirmed and due in, not yet checked in
+  inHouse: FrontDeskStay[];
+  departures: FrontDeskStay[]; // Checked in and due out
+}
+
+export interface BookingMoneyEvent {
+  kind: 'PAYMENT' | 'REFUND';
+  id: string;
+  type: PaymentPurpose | RefundReason;
+  method: PaymentMethod | null;
+  reference: string | null;
+  amountPaise: number;
+  status: PaymentStatus | RefundStatus;
+  razorpayOrderId: string | null;
+  razorpayPaymentId: string | null;
+  razorpayRefundId: string | null;
+  revisionId: string | null;
+  failureReason: string | null;
+  payload: Record<string, unknown> | null;
+  createdAt: string;
+  settledAt: string | null; // Captured or processed
+}
+
+export interface VerifyPaymentRequest {
+  razorpayOrderId: string;
+  razorpayPaymentId: string;
+  razorpaySignature: string;
+}
+
+export interface CancelBookingRequest {
+  email?: string; // Required unless signed in as the booking's owner
+  reason?: string;
+}
+
+export interface CancelBookingResponse {
+  bookingId: string;
+  status: 'CANCELLED';
+  refundAmount: number;
+  refundPolicy: 'full' | 'partial' | 'none' | 'non_refundable';
+  refunds: Array<{
+    id: string;
+    amount: number;
+    status: RefundStatus;
+  }>;
+}
+
+export interface BookingRoomRequest {
+  roomTypeId: string;
+  guests: number;
+}
+
+export interface CreateBookingRequest {
+  roomTypeId?: string; // Single-room booking
+  guests?: number;
+  rooms?: BookingRoomRequest[]; // Multi-room booking, instead of roomTypeId/guests
+  ratePlanId?: string;
+  checkIn: string;
+  checkOut: string;
   guestName: string;
   guestEmail: string;
   guestPhone?: string;
+  promoCode?: string;
+  redeemPoints?: number; // Loyalty points off the price; signed-in guests only
 }
 
 export interface BookingResponse {
   bookingId: string;
+  status: BookingStatus; // CONFIRMED straight away when nothing is due now
   razorpay: {
     orderId: string;
     keyId: string;
-    amount: number;
+    provider: string; // 'razorpay', or 'simulator' when payments run locally
+    amount: number; // Amount due now
     currency: string;
-  };
+  } | null; // No order when nothing is due now
+  payment: PaymentTerms;
   booking: {
     id: string;
-    roomType: string;
+    roomType: string; // Room type names, e.g. "2 × Deluxe Room, Executive Suite"
+    ratePlan: {
+      id: string;
+      name: string;
+      refundable: boolean;
+    } | null;
+    rooms: Array<{
+      roomTypeId: string;
+      roomType: string;
+      guests: number;
+      pricing: PriceQuote;
+    }>;
     checkIn: string;
     checkOut: string;
     guests: number;
     nights: number;
-    pricing: {
-      baseAmount: number;
-      serviceCharge: number;
-      gstOnRoom: number;
-      gstOnService: number;
-      totalAmount: number;
-    };
+    pricing: PriceQuote; // Whole reservation, before loyalty points
+    pointsRedeemed: number;
+    pointsPaise: number;
+    amountPaise: number; // What the guest pays: pricing total less the points
+    holdExpiresAt?: string; // ISO timestamp; pay before this or the booking expires
   };
 }
\ No newline at end of file
@@ -1,4 +1,30 @@
-export type LoyaltyActionType = 'EARN' | 'REDEEM' | 'ADJUST';
+export type LoyaltyActionType =
+  | 'EARN'
+  | 'REDEEM'
+  | 'ADJUST'
+  | 'TIER_CHANGE' // No points; ref is the LoyaltyTierChange
+  | 'HOLD' // Set aside for an unpaid booking; becomes REDEEM once it's paid
+  | 'RELEASE' // Held points returned
+  | 'REVERSAL' // Compensates an EARN or REDEEM after a cancellation, refund or chargeback
+  | 'CLAWBACK' // Owed points taken from a later EARN
+  | 'EXPIRE'; // What was left of a points lot at its expiry date; ref is the lot
+
+export interface PointsLotUse {
+  lotId: string;
+  points: number;
+}
+
+// Earned points, spent oldest first and expired at expiresAt
+export interface PointsLot {
+  id: string;
+  userId: string;
+  ledgerId: string | null; // The entry that credited the points; null for balances from before lots
+  points: number;
+  remaining: number;
+  expiresAt: Date;
+  remindedAt: Date | null;
+  createdAt: Date;
+}
 
 export interface LoyaltyLedger {
   id: string;
@@ -6,6 +32,66 @@ export interface LoyaltyLedger {
   points: number;
   type: LoyaltyActionType;
   ref: string | null;
+  breakdown: EarnLine[] | null; // EARN: the rules that produced the points
+  reversalOf: string | null; // REVERSAL and RELEASE: the entry compensated
+  reversedPoints: number; // EARN and REDEEM: how much has been reversed
+  reason: string | null;
+  lotUsage: PointsLotUse[] | null; // Debits: the points lots the points were taken from, oldest first
+  createdAt: Date;
+}
+
+export type EarnRuleKind = 'BASE' | 'ROOM_TYPE' | 'RATE_PLAN' | 'CAMPAIGN';
+
+export interface EarnRule {
+  id: string;
+  name: string;
+  kind: EarnRuleKind;
+  pointsPer100: number | null; // BASE: points per ₹100 spent
+  multiplier: number | null; // Bonuses: applied to base points on the matching spend
+  bonusPoints: number | null; // Bonuses: flat points once per matching stay
+  roomTypeIds: string[]; // Empty = all
+  ratePlanIds: string[]; // Empty = all
+  daysOfWeek: number[]; // Matching nights, 0 = Sunday (empty = every night)
+  stayFrom: Date | null; // Required for campaigns
+  stayTo: Date | null;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface EarnLine {
+  ruleId: string | null; // Null for the tier multiplier and the default base rate
+  rule: string;
+  points: number;
+}
+
+export interface LoyaltyTier {
+  id: string;
+  code: string; // e.g. 'GOLD'; what User.tier holds
+  name: string;
+  rank: number; // Higher is better
+  // Over the rolling 12 months; meeting any one qualifies, none set means open to all
+  minPoints: number | null;
+  minNights: number | null;
+  minSpendPaise: number | null;
+  graceDays: number; // Kept this long after no longer qualifying
+  multiplier: number;
+  perks: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LoyaltyTierChange {
+  id: string;
+  userId: string;
+  fromTier: string;
+  toTier: string;
+  reason: string;
+  metrics: {
+    points: number;
+    nights: number;
+    spendPaise: number;
+  };
   createdAt: Date;
 }
 
@@ -15,17 +101,47 @@ export interface LoyaltyInfo {
     name: string | null;
     email: string;
     points: number;
+    pointsOwed: number; // From reversals the balance couldn't cover; taken from later earnings
+    expiringPoints: {
+      withinDays: number;
+      points: number;
+      lots: Array<{ points: number; expiresAt: Date }>;
+    };
     tier: string;
     benefits: {
       multiplier: number;
       perks: string[];
     };
   };
+  tierStatus: {
+    code: string;
+    name: string;
+    graceUntil: Date | null; // Set while no longer qualifying; moved down after this
+    qualifying: LoyaltyTierChange['metrics']; // Rolling 12 months
+    nextTier: {
+      code: string;
+      name: string;
+      minPoints: number | null;
+      minNights: number | null;
+      minSpendPaise: number | null;
+    } | null;
+  };
+  tierHistory: Array<{
+    id: string;
+    fromTier: string;
+    toTier: string;
+    reason: string;
+    createdAt: Date;
+  }>;
   recentTransactions: Array<{
     id: string;
     points: number;
     type: LoyaltyActionType;
     ref: string | null;
+    breakdown: EarnLine[] | null;
+    reversalOf: string | null;
+    reason: string | null;
+    lotUsage: PointsLotUse[] | null;
     createdAt: Date;
   }>;
   pointsValue: {
@@ -0,0 +1,51 @@
+import { DiscountType } from './promo';
+import { TaxConfig, TaxLine } from './tax';
+
+export interface NightlyPrice {
+  date: string; // YYYY-MM-DD format
+  baseRate: number; // Rack rate for the night in paise
+  discount: number; // Rate plan discount in paise
+  promoDiscount: number; // Promo code discount in paise
+  roomRate: number; // Rate charged for the night (baseRate - discount - promoDiscount)
+  serviceCharge: number;
+  gstOnRoom: number;
+  gstOnService: number;
+  total: number;
+  taxes: TaxLine[];
+}
+
+export interface PriceQuote {
+  nights: number;
+  baseRate: number; // Room type base rate in paise
+  baseAmount: number; // Sum of nightly rack rates
+  discountAmount: number;
+  promoCode: string | null;
+  promoDiscount: number;
+  serviceCharge: number;
+  gstOnRoom: number;
+  gstOnService: number;
+  totalAmount: number;
+  taxes: TaxLine[]; // Tax breakdown by category and rate
+  nightly: NightlyPrice[];
+}
+
+export interface PriceQuoteInput {
+  roomType: {
+    id: string;
+    baseRate: number;
+  };
+  ratePlan?: {
+    id: string;
+    discountPct: number | null;
+  } | null;
+  checkIn: Date;
+  checkOut: Date;
+  guests: number;
+  nightlyRates?: Record<string, number>; // Rate calendar overrides keyed by YYYY-MM-DD
+  taxConfig?: TaxConfig;
+  promo?: {
+    code: string;
+    discountType: DiscountType;
+    discountValue: number;
+  } | null;
+}
@@ -0,0 +1,30 @@
+export type DiscountType = 'PERCENT' | 'FLAT';
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: DiscountType;
+  discountValue: number; // Percentage (0-100) or flat amount in paise
+  validFrom: Date | null; // Booking window
+  validTo: Date | null;
+  stayFrom: Date | null; // Stay window
+  stayTo: Date | null;
+  minNights: number | null;
+  roomTypeIds: string[]; // Empty means every room type
+  maxRedemptions: number | null;
+  maxPerUser: number | null;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PromoRedemption {
+  id: string;
+  promoCodeId: string;
+  bookingId: string;
+  userId: string | null;
+  guestEmail: string;
+  discountPaise: number;
+  createdAt: Date;
+}
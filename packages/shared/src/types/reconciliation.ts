@@ -0,0 +1,43 @@
+export type ReconciliationIssue =
+  | 'CAPTURED_WITHOUT_CONFIRMED_BOOKING'
+  | 'PAID_WITHOUT_CAPTURE'
+  | 'AMOUNT_MISMATCH'
+  | 'UNRECORDED_REFUND'; // Settled refund we have no record of
+
+export interface ReconciliationRow {
+  kind: 'PAYMENT' | 'REFUND' | 'BOOKING';
+  issue: ReconciliationIssue | null; // null when everything matched
+  detail: string | null;
+  bookingId: string | null;
+  bookingStatus: string | null;
+  razorpayOrderId: string | null;
+  razorpayPaymentId: string | null;
+  razorpayRefundId: string | null;
+  recordedPaise: number | null; // Our payment or refund record
+  gatewayPaise: number | null; // Captured or refunded at the gateway
+  settledPaise: number | null;
+  feePaise: number | null;
+  taxPaise: number | null;
+  settlementId: string | null;
+}
+
+export interface ReconciliationSummary {
+  payments: number;
+  refunds: number;
+  issues: number;
+  byIssue: Record<ReconciliationIssue, number>;
+  capturedPaise: number;
+  settledPaise: number; // Net of refunds
+  feePaise: number;
+  taxPaise: number;
+}
+
+export interface ReconciliationReport {
+  id: string;
+  date: string; // YYYY-MM-DD (IST)
+  source: string; // 'razorpay', 'simulator' or 'fixture'
+  summary: ReconciliationSummary;
+  rows: ReconciliationRow[];
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,25 @@
+export type RestrictionReason =
+  | 'STOP_SELL'
+  | 'CLOSED_TO_ARRIVAL'
+  | 'CLOSED_TO_DEPARTURE'
+  | 'MIN_LOS'
+  | 'MAX_LOS';
+
+export interface StayRestriction {
+  id: string;
+  roomTypeId: string;
+  date: Date;
+  minLos: number | null; // Minimum nights for stays arriving on this date
+  maxLos: number | null; // Maximum nights for stays arriving on this date
+  closedToArrival: boolean;
+  closedToDeparture: boolean;
+  stopSell: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RestrictionViolation {
+  reason: RestrictionReason;
+  date: string; // YYYY-MM-DD format
+  message: string;
+}
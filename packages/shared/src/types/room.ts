@@ -1,3 +1,6 @@
+import { PriceQuote } from './pricing';
+import { RestrictionViolation } from './restrictions';
+
 export interface RoomType {
   id: string;
   name: string;
@@ -15,33 +18,66 @@ export interface Inventory {
   date: Date;
   allotment: number;
   booked: number;
+  held: number; // Held for unpaid bookings
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type PaymentMode = 'FULL' | 'DEPOSIT' | 'PAY_AT_PROPERTY';
+
+export type NoShowPolicy = 'NONE' | 'FIRST_NIGHT' | 'FULL_STAY';
+
 export interface RatePlan {
   id: string;
   name: string;
   refundable: boolean;
   discountPct: number | null;
+  paymentMode: PaymentMode;
+  depositPct: number | null; // Share taken online for DEPOSIT plans
+  noShowPolicy: NoShowPolicy;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DailyRate {
+  id: string;
+  roomTypeId: string;
+  ratePlanId: string;
+  date: Date;
+  rate: number; // Rate in paise
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface AvailableRoom {
   roomTypeId: string;
+  ratePlanId: string;
+  ratePlanName: string;
+  refundable: boolean;
+  paymentMode: PaymentMode;
+  depositPct: number | null;
   name: string;
   capacity: number;
   amenities: string[];
   images: string[];
   available: number;
-  pricing: {
-    nights: number;
-    baseRate: number;
-    baseAmount: number;
-    serviceCharge: number;
-    gstOnRoom: number;
-    gstOnService: number;
-    totalAmount: number;
-  };
-}
\ No newline at end of file
+  restrictions: RestrictionViolation[];
+  pricing: PriceQuote;
+}
+export interface RoomCombination {
+  ratePlanId: string;
+  ratePlanName: string;
+  refundable: boolean;
+  paymentMode: PaymentMode;
+  depositPct: number | null;
+  capacity: number; // Combined capacity of every room
+  rooms: Array<{
+    roomTypeId: string;
+    name: string;
+    capacity: number;
+    guests: number; // Suggested guests for this room
+    pricing: PriceQuote;
+  }>;
+  pricing: PriceQuote; // Whole combination
+}
@@ -0,0 +1,35 @@
+export type TaxCategory = 'ACCOMMODATION' | 'SERVICE_CHARGE';
+
+export type RoundingMode = 'HALF_UP' | 'UP' | 'DOWN';
+
+export interface TaxSlab {
+  minTariff: number; // Per-night tariff in paise, inclusive
+  maxTariff: number | null; // Per-night tariff in paise, inclusive (null = no upper bound)
+  ratePct: number;
+}
+
+export interface TaxRule {
+  category: TaxCategory;
+  hsnSac: string; // HSN/SAC code printed on the invoice
+  effectiveFrom: string; // YYYY-MM-DD format, inclusive
+  effectiveTo: string | null; // YYYY-MM-DD format, inclusive (null = open ended)
+  slabs: TaxSlab[];
+}
+
+export interface TaxConfig {
+  rules: TaxRule[];
+  rounding: {
+    mode: RoundingMode;
+    unit: number; // Round to this many paise (1 = paisa, 100 = rupee)
+  };
+}
+
+export interface TaxLine {
+  category: TaxCategory;
+  hsnSac: string;
+  ratePct: number;
+  taxableAmount: number; // Amount in paise
+  cgst: number; // Central GST in paise
+  sgst: number; // State GST in paise
+  amount: number; // cgst + sgst
+}
@@ -42,4 +42,22 @@ export function isFutureDate(date: Date): boolean {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   return date >= today;
+}
+
+/**
+ * Expand an inclusive date range, optionally keeping only the given
+ * days of the week (0 = Sunday ... 6 = Saturday)
+ */
+export function expandDateRange(startDate: Date, endDate: Date, daysOfWeek?: number[]): Date[] {
+  const dates: Date[] = [];
+  const currentDate = new Date(startDate);
+
+  while (currentDate <= endDate) {
+    if (!daysOfWeek || daysOfWeek.includes(currentDate.getUTCDay())) {
+      dates.push(new Date(currentDate));
+    }
+    currentDate.setUTCDate(currentDate.getUTCDate() + 1);
+  }
+
+  return dates;
 }
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { NightlyPrice, PriceQuote, PriceQuoteInput } from '../types/pricing';
+import { TaxConfig } from '../types/tax';
+import { formatDate, getDateRange } from './date';
+import { calculateTax, DEFAULT_TAX_CONFIG, summarizeTaxes } from './tax';
+
+export const SERVICE_CHARGE_RATE = 0.10; // 10% service charge
+
+type NightlyAmount =
+  | 'baseRate'
+  | 'discount'
+  | 'promoDiscount'
+  | 'roomRate'
+  | 'serviceCharge'
+  | 'gstOnRoom'
+  | 'gstOnService'
+  | 'total';
+
+/**
+ * Price a single night after discounts. Service charge and GST are
+ * calculated on the discounted room rate.
+ */
+export function priceNight(
+  date: Date,
+  baseRate: number,
+  discount = 0,
+  promoDiscount = 0,
+  taxConfig: TaxConfig = DEFAULT_TAX_CONFIG
+): NightlyPrice {
+  const night = formatDate(date);
+  const roomRate = baseRate - discount - promoDiscount;
+  const serviceCharge = Math.round(roomRate * SERVICE_CHARGE_RATE);
+  const roomTax = calculateTax(taxConfig, 'ACCOMMODATION', night, roomRate, roomRate);
+  const serviceTax = calculateTax(taxConfig, 'SERVICE_CHARGE', night, serviceCharge, roomRate);
+
+  return {
+    date: night,
+    baseRate,
+    discount,
+    promoDiscount,
+    roomRate,
+    serviceCharge,
+    gstOnRoom: roomTax.amount,
+    gstOnService: serviceTax.amount,
+    total: roomRate + serviceCharge + roomTax.amount + serviceTax.amount,
+    taxes: [roomTax, serviceTax],
+  };
+}
+
+/**
+ * Split a promo discount across nights. Percentage promos apply to every
+ * night; flat promos are spread in proportion to each night's rate.
+ */
+function allocatePromoDiscount(rates: number[], promo: PriceQuoteInput['promo']): number[] {
+  if (!promo) {
+    return rates.map(() => 0);
+  }
+
+  if (promo.discountType === 'PERCENT') {
+    return rates.map(rate => Math.round(rate * promo.discountValue / 100));
+  }
+
+  const stayTotal = rates.reduce((total, rate) => total + rate, 0);
+  const flatDiscount = Math.min(promo.discountValue, stayTotal);
+  let allocated = 0;
+
+  return rates.map((rate, index) => {
+    const share = index === rates.length - 1
+      ? flatDiscount - allocated
+      : Math.floor(flatDiscount * rate / (stayTotal || 1));
+    allocated += share;
+    return share;
+  });
+}
+
+/**
+ * Build a price quote for a stay with a per-night breakdown.
+ * Totals are the sum of the nightly line items so the quote shown
+ * to the guest always matches the amount charged.
+ *
+ * Nights with a rate calendar entry are sold at that rate as-is; other
+ * nights fall back to the room type's base rate less the rate plan discount.
+ */
+export function buildPriceQuote(input: PriceQuoteInput): PriceQuote {
+  const discountPct = input.ratePlan?.discountPct ?? null;
+  const taxConfig = input.taxConfig ?? DEFAULT_TAX_CONFIG;
+  const dates = getDateRange(input.checkIn, input.checkOut);
+
+  const rates = dates.map(date => {
+    const calendarRate = input.nightlyRates?.[formatDate(date)];
+    if (calendarRate !== undefined) {
+      return { baseRate: calendarRate, discount: 0 };
+    }
+    const baseRate = input.roomType.baseRate;
+    return { baseRate, discount: discountPct ? Math.round(baseRate * discountPct / 100) : 0 };
+  });
+
+  const promoDiscounts = allocatePromoDiscount(
+    rates.map(rate => rate.baseRate - rate.discount),
+    input.promo
+  );
+
+  const nightly = dates.map((date, index) => {
+    const { baseRate, discount } = rates[index];
+    return priceNight(date, baseRate, discount, promoDiscounts[index], taxConfig);
+  });
+
+  const sum = (key: NightlyAmount) =>
+    nightly.reduce((total, night) => total + night[key], 0);
+
+  return {
+    nights: nightly.length,
+    baseRate: input.roomType.baseRate,
+    baseAmount: sum('baseRate'),
+    discountAmount: sum('discount'),
+    promoCode: input.promo?.code ?? null,
+    promoDiscount: sum('promoDiscount'),
+    serviceCharge: sum('serviceCharge'),
+    gstOnRoom: sum('gstOnRoom'),
+    gstOnService: sum('gstOnService'),
+    totalAmount: sum('total'),
+    taxes: summarizeTaxes(nightly.flatMap(night => night.taxes)),
+    nightly,
+  };
+}
+
+/**
+ * Combine the quotes for each room of a multi-room reservation into one.
+ * All quotes must cover the same stay; nightly lines are summed by date.
+ */
+export function combinePriceQuotes(quotes: PriceQuote[]): PriceQuote {
+  const nightlyByDate = new Map<string, NightlyPrice>();
+
+  for (const night of quotes.flatMap(quote => quote.nightly)) {
+    const existing = nightlyByDate.get(night.date);
+    if (!existing) {
+      nightlyByDate.set(night.date, { ...night, taxes: night.taxes.map(tax => ({ ...tax })) });
+      continue;
+    }
+
+    existing.baseRate += night.baseRate;
+    existing.discount += night.discount;
+    existing.promoDiscount += night.promoDiscount;
+    existing.roomRate += night.roomRate;
+    existing.serviceCharge += night.serviceCharge;
+    existing.gstOnRoom += night.gstOnRoom;
+    existing.gstOnService += night.gstOnService;
+    existing.total += night.total;
+    existing.taxes = summarizeTaxes([...existing.taxes, ...night.taxes]);
+  }
+
+  const sum = (key: Exclude<keyof PriceQuote, 'promoCode' | 'taxes' | 'nightly'>) =>
+    quotes.reduce((total, quote) => total + quote[key], 0);
+
+  return {
+    nights: quotes[0]?.nights ?? 0,
+    baseRate: sum('baseRate'),
+    baseAmount: sum('baseAmount'),
+    discountAmount: sum('discountAmount'),
+    promoCode: quotes.find(quote => quote.promoCode)?.promoCode ?? null,
+    promoDiscount: sum('promoDiscount'),
+    serviceCharge: sum('serviceCharge'),
+    gstOnRoom: sum('gstOnRoom'),
+    gstOnService: sum('gstOnService'),
+    totalAmount: sum('totalAmount'),
+    taxes: summarizeTaxes(quotes.flatMap(quote => quote.taxes)),
+    nightly: Array.from(nightlyByDate.values()),
+  };
+}
@@ -0,0 +1,49 @@
+import { RestrictionViolation, StayRestriction } from '../types/restrictions';
+import { calculateNights, formatDate } from './date';
+
+type RestrictionRule = Pick<
+  StayRestriction,
+  'date' | 'minLos' | 'maxLos' | 'closedToArrival' | 'closedToDeparture' | 'stopSell'
+>;
+
+/**
+ * Check a stay against per-date restrictions.
+ * Length-of-stay limits and closed-to-arrival apply to the arrival date,
+ * closed-to-departure to the departure date and stop-sell to every night.
+ */
+export function evaluateStayRestrictions(
+  rules: RestrictionRule[],
+  checkIn: Date,
+  checkOut: Date
+): RestrictionViolation[] {
+  const violations: RestrictionViolation[] = [];
+  const nights = calculateNights(checkIn, checkOut);
+  const arrival = formatDate(checkIn);
+  const departure = formatDate(checkOut);
+
+  for (const rule of rules) {
+    const date = formatDate(rule.date);
+
+    if (date === arrival) {
+      if (rule.closedToArrival) {
+        violations.push({ reason: 'CLOSED_TO_ARRIVAL', date, message: `Arrivals are closed on ${date}` });
+      }
+      if (rule.minLos !== null && nights < rule.minLos) {
+        violations.push({ reason: 'MIN_LOS', date, message: `Stays arriving on ${date} require at least ${rule.minLos} nights` });
+      }
+      if (rule.maxLos !== null && nights > rule.maxLos) {
+        violations.push({ reason: 'MAX_LOS', date, message: `Stays arriving on ${date} are limited to ${rule.maxLos} nights` });
+      }
+    }
+
+    if (date === departure && rule.closedToDeparture) {
+      violations.push({ reason: 'CLOSED_TO_DEPARTURE', date, message: `Departures are closed on ${date}` });
+    }
+
+    if (date >= arrival && date < departure && rule.stopSell) {
+      violations.push({ reason: 'STOP_SELL', date, message: `Sales are stopped for ${date}` });
+    }
+  }
+
+  return violations;
+}
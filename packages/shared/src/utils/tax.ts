@@ -0,0 +1,144 @@
+import { RoundingMode, TaxCategory, TaxConfig, TaxLine, TaxRule } from '../types/tax';
+
+/**
+ * GST on hotel accommodation (SAC 996311) depends on the per-night tariff.
+ * Service charge is taxed at the standard 18% rate.
+ */
+export const DEFAULT_TAX_CONFIG: TaxConfig = {
+  rules: [
+    {
+      category: 'ACCOMMODATION',
+      hsnSac: '996311',
+      effectiveFrom: '2019-10-01',
+      effectiveTo: '2022-07-17',
+      slabs: [
+        { minTariff: 0, maxTariff: 100000, ratePct: 0 },
+        { minTariff: 100001, maxTariff: 750000, ratePct: 12 },
+        { minTariff: 750001, maxTariff: null, ratePct: 18 },
+      ],
+    },
+    {
+      category: 'ACCOMMODATION',
+      hsnSac: '996311',
+      effectiveFrom: '2022-07-18',
+      effectiveTo: '2025-09-21',
+      slabs: [
+        { minTariff: 0, maxTariff: 750000, ratePct: 12 },
+        { minTariff: 750001, maxTariff: null, ratePct: 18 },
+      ],
+    },
+    {
+      category: 'ACCOMMODATION',
+      hsnSac: '996311',
+      effectiveFrom: '2025-09-22',
+      effectiveTo: null,
+      slabs: [
+        { minTariff: 0, maxTariff: 750000, ratePct: 5 },
+        { minTariff: 750001, maxTariff: null, ratePct: 18 },
+      ],
+    },
+    {
+      category: 'SERVICE_CHARGE',
+      hsnSac: '999799',
+      effectiveFrom: '2017-07-01',
+      effectiveTo: null,
+      slabs: [
+        { minTariff: 0, maxTariff: null, ratePct: 18 },
+      ],
+    },
+  ],
+  rounding: {
+    mode: 'HALF_UP',
+    unit: 1,
+  },
+};
+
+/**
+ * Round an amount in paise to the configured unit
+ */
+export function roundTax(amount: number, mode: RoundingMode, unit: number): number {
+  const units = amount / unit;
+  switch (mode) {
+    case 'UP':
+      return Math.ceil(units) * unit;
+    case 'DOWN':
+      return Math.floor(units) * unit;
+    default:
+      return Math.round(units) * unit;
+  }
+}
+
+/**
+ * Find the tax rule in effect for a category on a date (YYYY-MM-DD)
+ */
+export function findTaxRule(config: TaxConfig, category: TaxCategory, date: string): TaxRule {
+  const rule = config.rules.find(candidate =>
+    candidate.category === category &&
+    candidate.effectiveFrom <= date &&
+    (candidate.effectiveTo === null || date <= candidate.effectiveTo)
+  );
+
+  if (!rule) {
+    throw new Error(`No ${category} tax rule in effect on ${date}`);
+  }
+
+  return rule;
+}
+
+/**
+ * Calculate GST for one line of one night.
+ * The slab within the category's rule is chosen by the night's room
+ * tariff, not the taxable amount. Service charge has a single slab, so it
+ * is taxed at 18% whatever the tariff.
+ */
+export function calculateTax(
+  config: TaxConfig,
+  category: TaxCategory,
+  date: string,
+  taxableAmount: number,
+  tariff: number
+): TaxLine {
+  const rule = findTaxRule(config, category, date);
+  const slab = rule.slabs.find(candidate =>
+    tariff >= candidate.minTariff &&
+    (candidate.maxTariff === null || tariff <= candidate.maxTariff)
+  );
+  const ratePct = slab?.ratePct ?? 0;
+
+  // Intra-state supply: split equally between CGST and SGST
+  const { mode, unit } = config.rounding;
+  const cgst = roundTax(taxableAmount * ratePct / 200, mode, unit);
+  const sgst = roundTax(taxableAmount * ratePct / 200, mode, unit);
+
+  return {
+    category,
+    hsnSac: rule.hsnSac,
+    ratePct,
+    taxableAmount,
+    cgst,
+    sgst,
+    amount: cgst + sgst,
+  };
+}
+
+/**
+ * Combine tax lines with the same category, code and rate
+ */
+export function summarizeTaxes(lines: TaxLine[]): TaxLine[] {
+  const summary = new Map<string, TaxLine>();
+
+  for (const line of lines) {
+    const key = `${line.category}:${line.hsnSac}:${line.ratePct}`;
+    const existing = summary.get(key);
+    if (existing) {
+      existing.taxableAmount += line.taxableAmount;
+      existing.cgst += line.cgst;
+      existing.sgst += line.sgst;
+      existing.amount += line.amount;
+    } else {
+      summary.set(key, { ...line });
+    }
+  }
+
+  return Array.from(summary.values());
+}